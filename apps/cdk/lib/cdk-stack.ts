@@ -4,6 +4,8 @@ import * as ecs from "aws-cdk-lib/aws-ecs";
 import * as elbv2 from "aws-cdk-lib/aws-elasticloadbalancingv2";
 import * as cloudfront from "aws-cdk-lib/aws-cloudfront";
 import * as origins from "aws-cdk-lib/aws-cloudfront-origins";
+import * as dynamodb from "aws-cdk-lib/aws-dynamodb";
+import * as elasticache from "aws-cdk-lib/aws-elasticache";
 import { Construct } from "constructs";
 import * as path from "path";
 
@@ -22,6 +24,44 @@ export class CdkStack extends cdk.Stack {
       clusterName: "x402-proxy-cluster",
     });
 
+    // Wrapped stream registry (survives deploys and is shared across tasks)
+    const wrappedStreamsTable = new dynamodb.Table(this, "WrappedStreamsTable", {
+      partitionKey: { name: "id", type: dynamodb.AttributeType.STRING },
+      billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+      removalPolicy: cdk.RemovalPolicy.RETAIN,
+    });
+
+    // Redis shared by every task for voucher state (nonce compare-and-set),
+    // receipt revocations and the delivery ledger; reachable from the
+    // service only
+    const redisSecurityGroup = new ec2.SecurityGroup(
+      this,
+      "X402RedisSecurityGroup",
+      { vpc, description: "x402 proxy Redis" }
+    );
+    const redisSubnetGroup = new elasticache.CfnSubnetGroup(
+      this,
+      "X402RedisSubnetGroup",
+      {
+        description: "x402 proxy Redis",
+        subnetIds: vpc.publicSubnets.map((subnet) => subnet.subnetId),
+      }
+    );
+    const redis = new elasticache.CfnReplicationGroup(this, "X402Redis", {
+      replicationGroupDescription: "x402 proxy payment state",
+      engine: "redis",
+      cacheNodeType: "cache.t4g.micro",
+      // Primary and replica in different AZs, so a node failure doesn't
+      // lose voucher state
+      numCacheClusters: 2,
+      automaticFailoverEnabled: true,
+      multiAzEnabled: true,
+      transitEncryptionEnabled: true,
+      atRestEncryptionEnabled: true,
+      cacheSubnetGroupName: redisSubnetGroup.ref,
+      securityGroupIds: [redisSecurityGroup.securityGroupId],
+    });
+
     // Task Definition - Minimum specs (0.25 vCPU, 512 MB)
     const taskDefinition = new ecs.FargateTaskDefinition(
       this,
@@ -41,7 +81,13 @@ export class CdkStack extends cdk.Stack {
       environment: {
         NODE_ENV: "production",
         PORT: "3000",
-        JWT_SECRET: process.env.JWT_SECRET!,
+        // Shared receipt signing keys (private JWKs), so every task verifies
+        // receipts issued by the others
+        JWT_SIGNING_KEYS: process.env.JWT_SIGNING_KEYS!,
+        // Legacy HS256 receipts are only accepted while JWT_SECRET is set
+        ...(process.env.JWT_SECRET && { JWT_SECRET: process.env.JWT_SECRET }),
+        // Enables POST /admin/revocations
+        ...(process.env.ADMIN_TOKEN && { ADMIN_TOKEN: process.env.ADMIN_TOKEN }),
         MERCHANT_ADDRESS: process.env.MERCHANT_ADDRESS!,
         STREAM_PRICE_USDC: process.env.STREAM_PRICE_USDC!,
         X402_NETWORK: process.env.X402_NETWORK!,
@@ -49,9 +95,22 @@ export class CdkStack extends cdk.Stack {
         ASSET_ADDRESS: process.env.ASSET_ADDRESS || "0x036CbD53842c5426634e7929541eC2318f3dCF7e",
         STEP_AMOUNT: process.env.STEP_AMOUNT || "10000",
         VOUCHER_TIME_WINDOW: process.env.VOUCHER_TIME_WINDOW || "20",
+        WRAPPED_STORE: "dynamodb",
+        DYNAMODB_TABLE: wrappedStreamsTable.tableName,
+        // Payment state must be shared by the tasks behind the load balancer
+        VOUCHER_STORE: "redis",
+        REVOCATION_STORE: "redis",
+        DELIVERY_LEDGER: "redis",
+        REDIS_URL: `rediss://${redis.attrPrimaryEndPointAddress}:${redis.attrPrimaryEndPointPort}`,
+        // Upstream cache: 64 MB in memory (of the 512 MB task), evicted
+        // segments spill to the task's ephemeral storage
+        CACHE_MAX_BYTES: String(64 * 1024 * 1024),
+        CACHE_DIR: "/tmp/upstream-cache",
       },
     });
 
+    wrappedStreamsTable.grantReadWriteData(taskDefinition.taskRole);
+
     container.addPortMappings({
       containerPort: 3000,
       protocol: ecs.Protocol.TCP,
@@ -71,6 +130,11 @@ export class CdkStack extends cdk.Stack {
       desiredCount: 1,
       assignPublicIp: true,
     });
+    redisSecurityGroup.connections.allowFrom(
+      service,
+      ec2.Port.tcp(6379),
+      "x402 proxy tasks"
+    );
 
     // Target Group
     const targetGroup = new elbv2.ApplicationTargetGroup(
@@ -1,6 +1,90 @@
-import { describe, it, expect } from "vitest";
+import { describe, it, expect, vi, afterEach } from "vitest";
 import request from "supertest";
-import { app } from "./app.js";
+import { randomUUID } from "node:crypto";
+import { createLocalJWKSet, jwtVerify } from "jose";
+import { generatePrivateKey, privateKeyToAccount } from "viem/accounts";
+import {
+  type DeferredVoucher,
+  VOUCHER_TYPES,
+  createVoucher,
+  encodePayment,
+  getVoucherDomain,
+  toVoucherMessage,
+} from "@x402-video-paylink/deferred";
+import { app, deliveryLedger, revocationStore, voucherStore } from "./app.js";
+import { config } from "./config.js";
+import {
+  getStreamId,
+  issuePlaybackToken,
+  issueReceiptToken,
+  receiptKeys,
+  verifyPlaybackToken,
+  verifyReceiptToken,
+} from "./receipts.js";
+
+const ADMIN_TOKEN = vi.hoisted(() => {
+  process.env.ADMIN_TOKEN = "test-admin-token";
+  return process.env.ADMIN_TOKEN;
+});
+
+vi.hoisted(() => {
+  process.env.EXTERNAL_PLAYBACK = "true";
+  // Tests mock the same origin URLs with different responses
+  process.env.CACHE_MAX_BYTES = "0";
+});
+
+const buyer = privateKeyToAccount(generatePrivateKey());
+
+// Manifest receipt JWT as issued by the exact middleware
+async function receiptTokenFor(
+  streamId: string,
+  sub: string = buyer.address,
+  jti: string = randomUUID()
+) {
+  return issueReceiptToken({
+    iss: config.baseUrl,
+    sub: sub.toLowerCase(),
+    req: `/stream/${streamId}.m3u8`,
+    iat: Math.floor(Date.now() / 1000),
+    jti,
+    scope: [`${config.baseUrl}/stream/${streamId}*`],
+  });
+}
+
+// Wrap a test stream and fetch the voucher requirements of its first segment
+async function wrapSegment(stepAmount: string) {
+  const wrapResponse = await request(app)
+    .post("/wrap")
+    .send({ url: "https://example.com/video.m3u8", stepAmount });
+  const segmentPath = wrapResponse.body.wrappedUrl
+    .match(/\/stream\/.+$/)[0]
+    .replace(".m3u8", "/segment0.ts");
+  const requirement = (await request(app).get(segmentPath)).body.accepts[0];
+  const streamId = getStreamId(segmentPath)!;
+
+  const now = Math.floor(Date.now() / 1000);
+  const voucherParams = {
+    id: requirement.extra.voucher.id,
+    resource: streamId,
+    seller: requirement.payTo,
+    buyer: buyer.address,
+    asset: requirement.asset,
+    timestamp: now,
+    expiry: now + 600,
+    chainId: requirement.network === "base-sepolia" ? 84532 : 8453,
+  };
+
+  return { streamId, segmentPath, requirement, voucherParams };
+}
+
+function signTestVoucher(voucher: DeferredVoucher) {
+  return buyer.signTypedData({
+    domain: getVoucherDomain(voucher.chainId),
+    types: VOUCHER_TYPES,
+    primaryType: "Voucher",
+    message: toVoucherMessage(voucher),
+  });
+}
 
 describe("X402 Proxy Server", () => {
   describe("GET /health", () => {
@@ -12,6 +96,178 @@ describe("X402 Proxy Server", () => {
     });
   });
 
+  describe("Request ids", () => {
+    it("should echo well-formed request ids and replace others", async () => {
+      const echoed = await request(app)
+        .get("/health")
+        .set("X-Request-Id", "trace-42");
+      const replaced = await request(app)
+        .get("/health")
+        .set("X-Request-Id", "x".repeat(200));
+
+      expect(echoed.headers["x-request-id"]).toBe("trace-42");
+      expect(replaced.headers["x-request-id"]).toMatch(
+        /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/
+      );
+    });
+
+    it("should forward the request id to the origin", async () => {
+      const { streamId, segmentPath, voucherParams } =
+        await wrapSegment("1000");
+      const voucher = createVoucher({
+        ...voucherParams,
+        nonce: 0,
+        valueAggregate: "1000",
+      });
+      const fetchMock = vi
+        .spyOn(globalThis, "fetch")
+        .mockResolvedValue(new Response("segment"));
+
+      const response = await request(app)
+        .get(segmentPath)
+        .set("X-Request-Id", "trace-43")
+        .set("Authorization", `Bearer ${await receiptTokenFor(streamId)}`)
+        .set(
+          "X-PAYMENT",
+          encodePayment(voucher, await signTestVoucher(voucher))
+        );
+
+      expect(response.status).toBe(200);
+      expect(fetchMock.mock.calls[0][1]?.headers).toMatchObject({
+        "X-Request-Id": "trace-43",
+      });
+      fetchMock.mockRestore();
+    });
+  });
+
+  describe("GET /.well-known/jwks.json", () => {
+    it("should publish keys verifying issued receipts", async () => {
+      const token = await receiptTokenFor("abc");
+
+      const response = await request(app).get("/.well-known/jwks.json");
+
+      expect(response.status).toBe(200);
+      const { payload, protectedHeader } = await jwtVerify(
+        token,
+        createLocalJWKSet(response.body)
+      );
+      expect(protectedHeader.kid).toBeDefined();
+      expect(payload.sub).toBe(buyer.address.toLowerCase());
+    });
+  });
+
+  describe("POST /admin/revocations", () => {
+    afterEach(() => {
+      vi.useRealTimers();
+      vi.restoreAllMocks();
+    });
+
+    it("should require the admin token", async () => {
+      const response = await request(app)
+        .post("/admin/revocations")
+        .set("Authorization", "Bearer wrong-token")
+        .send({ jti: "abc" });
+
+      expect(response.status).toBe(401);
+    });
+
+    it("should require exactly one revocation target", async () => {
+      const response = await request(app)
+        .post("/admin/revocations")
+        .set("Authorization", `Bearer ${ADMIN_TOKEN}`)
+        .send({ jti: "abc", streamId: "def" });
+
+      expect(response.status).toBe(400);
+    });
+
+    it("should stop accepting a receipt revoked by jti", async () => {
+      const { streamId, segmentPath, voucherParams } =
+        await wrapSegment("1000");
+      const jti = randomUUID();
+      const token = await receiptTokenFor(streamId, buyer.address, jti);
+      const voucher = createVoucher({
+        ...voucherParams,
+        nonce: 0,
+        valueAggregate: "1000",
+      });
+
+      const revokeResponse = await request(app)
+        .post("/admin/revocations")
+        .set("Authorization", `Bearer ${ADMIN_TOKEN}`)
+        .send({ jti, reason: "refund" });
+      expect(revokeResponse.status).toBe(201);
+      expect(revokeResponse.body.revocation).toMatchObject({
+        kind: "jti",
+        value: jti,
+        reason: "refund",
+      });
+
+      const response = await request(app)
+        .get(segmentPath)
+        .set("Authorization", `Bearer ${token}`)
+        .set(
+          "X-PAYMENT",
+          encodePayment(voucher, await signTestVoucher(voucher))
+        );
+      expect(response.status).toBe(401);
+    });
+
+    it("should require payment again for a revoked stream", async () => {
+      const { streamId } = await wrapSegment("1000");
+      const token = await receiptTokenFor(streamId);
+
+      await request(app)
+        .post("/admin/revocations")
+        .set("Authorization", `Bearer ${ADMIN_TOKEN}`)
+        .send({ streamId });
+
+      const response = await request(app)
+        .get(`/stream/${streamId}.m3u8`)
+        .set("Authorization", `Bearer ${token}`);
+      expect(response.status).toBe(402);
+    });
+
+    it("should keep refusing playback tokens of a revoked stream past the receipt TTL", async () => {
+      const { streamId, segmentPath, voucherParams } =
+        await wrapSegment("1000");
+      const receipt = await verifyReceiptToken(await receiptTokenFor(streamId));
+      await request(app)
+        .post("/admin/revocations")
+        .set("Authorization", `Bearer ${ADMIN_TOKEN}`)
+        .send({ streamId });
+
+      // Playback tokens last until their voucher expires, after the receipt
+      const later = Math.floor(Date.now() / 1000) + config.jwtTTL + 60;
+      const voucher = createVoucher({
+        ...voucherParams,
+        nonce: 0,
+        valueAggregate: "1000",
+        timestamp: later,
+        expiry: later + 600,
+      });
+      await voucherStore.compareAndSet(voucher.id, null, {
+        voucher,
+        signature: await signTestVoucher(voucher),
+      });
+      const token = await issuePlaybackToken(
+        receipt,
+        voucher.id,
+        voucher.expiry
+      );
+      vi.spyOn(globalThis, "fetch").mockImplementation(
+        async () =>
+          new Response("ts", { headers: { "content-type": "video/mp2t" } })
+      );
+      vi.useFakeTimers({ toFake: ["Date"] });
+      vi.setSystemTime(later * 1000);
+
+      const response = await request(app).get(
+        `${segmentPath}?x402_token=${token}`
+      );
+      expect(response.status).toBe(402);
+    });
+  });
+
   describe("POST /wrap", () => {
     it("should wrap HLS stream URL", async () => {
       const response = await request(app)
@@ -110,6 +366,29 @@ describe("X402 Proxy Server", () => {
       });
     });
 
+    it("should reject invalid per-stream pricing", async () => {
+      const invalidCases = [
+        { price: "-1" },
+        { price: "free" },
+        { stepAmount: "0.5" },
+        { payTo: "not-an-address" },
+        { title: 42 },
+      ];
+
+      const responses = await Promise.all(
+        invalidCases.map((pricing) =>
+          request(app)
+            .post("/wrap")
+            .send({ url: "https://example.com/video.m3u8", ...pricing })
+        )
+      );
+
+      responses.forEach((response) => {
+        expect(response.status).toBe(400);
+        expect(response.body.error).toContain("Invalid");
+      });
+    });
+
     it("should create unique IDs for multiple wraps", async () => {
       const url = "https://example.com/video.mp4";
 
@@ -164,6 +443,727 @@ describe("X402 Proxy Server", () => {
     });
   });
 
+  describe("Per-stream pricing", () => {
+    const payTo = "0x1111111111111111111111111111111111111111";
+
+    it("should use per-stream price, payTo and description in 402 requirements", async () => {
+      const wrapResponse = await request(app).post("/wrap").send({
+        url: "https://example.com/video.m3u8",
+        price: "0.25",
+        stepAmount: "5000",
+        payTo,
+        title: "Launch event",
+        description: "Keynote replay",
+      });
+      const streamPath = wrapResponse.body.wrappedUrl.match(/\/stream\/.+$/)[0];
+
+      const manifestResponse = await request(app).get(streamPath);
+      expect(manifestResponse.status).toBe(402);
+      expect(manifestResponse.body.accepts[0]).toMatchObject({
+        scheme: "exact",
+        maxAmountRequired: "250000",
+        payTo,
+        description: "Keynote replay",
+        mimeType: "application/vnd.apple.mpegurl",
+      });
+
+      const segmentResponse = await request(app).get(
+        streamPath.replace(".m3u8", "/segment0.ts")
+      );
+      expect(segmentResponse.status).toBe(402);
+      expect(segmentResponse.body.accepts[0]).toMatchObject({
+        scheme: "deferred",
+        maxAmountRequired: "5000",
+        payTo,
+      });
+    });
+
+    it("should show the per-stream price and title on the paywall", async () => {
+      const wrapResponse = await request(app).post("/wrap").send({
+        url: "https://example.com/video.m3u8",
+        price: "0.25",
+        title: "Launch event",
+      });
+      const streamPath = wrapResponse.body.wrappedUrl.match(/\/stream\/.+$/)[0];
+
+      const response = await request(app)
+        .get(streamPath)
+        .set("Accept", "text/html")
+        .set("User-Agent", "Mozilla/5.0");
+
+      expect(response.status).toBe(402);
+      expect(response.text).toContain('"amount":"0.25"');
+      expect(response.text).toContain('"title":"Launch event"');
+    });
+  });
+
+  describe("Live streams", () => {
+    afterEach(() => {
+      vi.restoreAllMocks();
+    });
+
+    // Wrap a free live stream and build voucher params for its playlist
+    async function wrapLive() {
+      const wrapResponse = await request(app).post("/wrap").send({
+        url: "https://example.com/live.m3u8",
+        live: true,
+        price: "0",
+        stepAmount: "6000",
+      });
+      const manifestPath =
+        wrapResponse.body.wrappedUrl.match(/\/stream\/.+$/)[0];
+      const response = await request(app).get(manifestPath);
+      const requirement = response.body.accepts[0];
+
+      const now = Math.floor(Date.now() / 1000);
+      return {
+        manifestPath,
+        response,
+        voucherParams: {
+          id: requirement.extra.voucher.id,
+          resource: getStreamId(manifestPath)!,
+          seller: requirement.payTo,
+          buyer: buyer.address,
+          asset: requirement.asset,
+          expiry: now + 600,
+          chainId: 84532,
+        },
+      };
+    }
+
+    const mockOrigin = () =>
+      vi.spyOn(globalThis, "fetch").mockImplementation(
+        async () =>
+          new Response("#EXTM3U\n", {
+            headers: { "content-type": "application/vnd.apple.mpegurl" },
+          })
+      );
+
+    it("should only accept live for HLS/DASH and a free manifest for live", async () => {
+      const progressive = await request(app)
+        .post("/wrap")
+        .send({ url: "https://example.com/video.mp4", live: true });
+      const freeVod = await request(app)
+        .post("/wrap")
+        .send({ url: "https://example.com/video.m3u8", price: "0" });
+
+      expect(progressive.status).toBe(400);
+      expect(freeVod.status).toBe(400);
+    });
+
+    it("should meter free live playlists by time without a receipt", async () => {
+      const { manifestPath, response, voucherParams } = await wrapLive();
+      expect(response.status).toBe(402);
+      expect(response.body.accepts[0].extra).toMatchObject({
+        type: "new",
+        metering: "time",
+        stepAmount: "6000",
+      });
+
+      mockOrigin();
+      const voucher = createVoucher({
+        ...voucherParams,
+        nonce: 0,
+        valueAggregate: "6000",
+        timestamp: Math.floor(Date.now() / 1000),
+      });
+      const playlist = await request(app)
+        .get(manifestPath)
+        .set(
+          "X-PAYMENT",
+          encodePayment(voucher, await signTestVoucher(voucher))
+        );
+
+      expect(playlist.status).toBe(200);
+    });
+
+    it("should require aggregations to cover the viewing time", async () => {
+      const { manifestPath, voucherParams } = await wrapLive();
+      const now = Math.floor(Date.now() / 1000);
+      const first = createVoucher({
+        ...voucherParams,
+        nonce: 0,
+        valueAggregate: "6000",
+        timestamp: now - 30,
+      });
+      await voucherStore.compareAndSet(first.id, null, {
+        voucher: first,
+        signature: await signTestVoucher(first),
+      });
+      mockOrigin();
+
+      // 30s at 6000 per minute = 3000
+      const aggregate = async (valueAggregate: string) => {
+        const next = createVoucher({
+          ...voucherParams,
+          nonce: 1,
+          valueAggregate,
+          timestamp: now,
+        });
+        return request(app)
+          .get(manifestPath)
+          .set("X-PAYMENT", encodePayment(next, await signTestVoucher(next)));
+      };
+
+      const tooLow = await aggregate("8999");
+      expect(tooLow.status).toBe(402);
+      expect(tooLow.body.error).toBe(
+        "ValueAggregate too low: expected at least 9000"
+      );
+      expect((await aggregate("9000")).status).toBe(200);
+    });
+
+    it("should meter future-dated vouchers from when the server accepted them", async () => {
+      const { manifestPath, voucherParams } = await wrapLive();
+      const now = Math.floor(Date.now() / 1000);
+      // Dated 50s ahead, accepted 20s ago
+      const first = createVoucher({
+        ...voucherParams,
+        nonce: 0,
+        valueAggregate: "6000",
+        timestamp: now + 50,
+      });
+      await voucherStore.compareAndSet(first.id, null, {
+        voucher: first,
+        signature: await signTestVoucher(first),
+        lastValidated: (now - 20) * 1000,
+      });
+      mockOrigin();
+
+      // 20s watched at 6000 per minute = 2000, not the 10s between the
+      // signed timestamps
+      const aggregate = async (valueAggregate: string) => {
+        const next = createVoucher({
+          ...voucherParams,
+          nonce: 1,
+          valueAggregate,
+          timestamp: now + 60,
+        });
+        return request(app)
+          .get(manifestPath)
+          .set("X-PAYMENT", encodePayment(next, await signTestVoucher(next)));
+      };
+
+      const tooLow = await aggregate("7999");
+      expect(tooLow.status).toBe(402);
+      expect(tooLow.body.error).toBe(
+        "ValueAggregate too low: expected at least 8000"
+      );
+      expect((await aggregate("8000")).status).toBe(200);
+    });
+
+    it("should close the reuse window of a future-dated voucher on server time", async () => {
+      const { manifestPath, voucherParams } = await wrapLive();
+      const now = Math.floor(Date.now() / 1000);
+      const voucher = createVoucher({
+        ...voucherParams,
+        nonce: 0,
+        valueAggregate: "6000",
+        timestamp: now + 60,
+      });
+      const signature = await signTestVoucher(voucher);
+      await voucherStore.compareAndSet(voucher.id, null, {
+        voucher,
+        signature,
+        lastValidated: (now - config.voucherTimeWindow - 5) * 1000,
+      });
+      // Already paid for a playlist
+      await deliveryLedger.begin({
+        id: randomUUID(),
+        voucherId: voucher.id,
+        nonce: 0,
+        resource: voucher.resource,
+        path: manifestPath,
+        state: "complete",
+        bytes: 8,
+        startedAt: Date.now(),
+        expiresAt: voucher.expiry,
+      });
+      mockOrigin();
+
+      const reused = await request(app)
+        .get(manifestPath)
+        .set("X-PAYMENT", encodePayment(voucher, signature));
+
+      expect(reused.status).toBe(402);
+      expect(reused.body.error).toBe(
+        "Voucher timestamp expired, please aggregate"
+      );
+      expect(reused.body.accepts[0].extra.type).toBe("aggregation");
+    });
+  });
+
+  describe("Progressive streams", () => {
+    afterEach(() => {
+      vi.restoreAllMocks();
+    });
+
+    // Wrap an MP4 and build voucher params for its byte ranges
+    async function wrapProgressive() {
+      const wrapResponse = await request(app)
+        .post("/wrap")
+        .send({ url: "https://example.com/video.mp4", stepAmount: "2000" });
+      const filePath = wrapResponse.body.wrappedUrl.match(/\/stream\/.+$/)[0];
+      const streamId = getStreamId(filePath)!;
+      const token = await receiptTokenFor(streamId);
+      const response = await request(app)
+        .get(filePath)
+        .set("Authorization", `Bearer ${token}`);
+      const requirement = response.body.accepts[0];
+
+      const now = Math.floor(Date.now() / 1000);
+      return {
+        filePath,
+        token,
+        response,
+        voucherParams: {
+          id: requirement.extra.voucher.id,
+          resource: streamId,
+          seller: requirement.payTo,
+          buyer: buyer.address,
+          asset: requirement.asset,
+          expiry: now + 600,
+          chainId: 84532,
+        },
+      };
+    }
+
+    const mockOrigin = () =>
+      vi.spyOn(globalThis, "fetch").mockImplementation(
+        async () =>
+          new Response("mp4", {
+            status: 206,
+            headers: {
+              "content-type": "video/mp4",
+              "content-range": "bytes 0-2/100",
+            },
+          })
+      );
+
+    it("should meter purchased files per byte range", async () => {
+      const { response } = await wrapProgressive();
+
+      expect(response.status).toBe(402);
+      expect(response.body.accepts[0].scheme).toBe("deferred");
+      expect(response.body.accepts[0].extra).toMatchObject({
+        type: "new",
+        metering: "range",
+        rangeBytes: config.progressiveRangeBytes,
+        stepAmount: "2000",
+      });
+    });
+
+    it("should serve one limited range per voucher aggregation", async () => {
+      const { filePath, token, voucherParams } = await wrapProgressive();
+      const fetchMock = mockOrigin();
+      const now = Math.floor(Date.now() / 1000);
+
+      const getRange = async (voucher: DeferredVoucher) =>
+        request(app)
+          .get(filePath)
+          .set("Authorization", `Bearer ${token}`)
+          .set(
+            "X-PAYMENT",
+            encodePayment(voucher, await signTestVoucher(voucher))
+          );
+
+      const first = createVoucher({
+        ...voucherParams,
+        nonce: 0,
+        valueAggregate: "2000",
+        timestamp: now - 1,
+      });
+      const firstRange = await getRange(first);
+      expect(firstRange.status).toBe(206);
+      expect(fetchMock.mock.calls[0][1]?.headers).toMatchObject({
+        Range: `bytes=0-${config.progressiveRangeBytes - 1}`,
+      });
+
+      // Reusing the voucher within its time window isn't enough
+      const reused = await getRange(first);
+      expect(reused.status).toBe(402);
+      expect(reused.body.accepts[0].extra.type).toBe("aggregation");
+
+      const next = createVoucher({
+        ...voucherParams,
+        nonce: 1,
+        valueAggregate: "4000",
+        timestamp: now,
+      });
+      expect((await getRange(next)).status).toBe(206);
+    });
+
+    it("should refund ranges whose delivery failed", async () => {
+      const { filePath, token, voucherParams } = await wrapProgressive();
+      const fetchMock = mockOrigin();
+      // The origin drops the connection mid-body once
+      fetchMock.mockImplementationOnce(
+        async () =>
+          new Response(
+            new ReadableStream({
+              pull(controller) {
+                controller.error(new TypeError("terminated"));
+              },
+            }),
+            { status: 206, headers: { "content-range": "bytes 0-2/100" } }
+          )
+      );
+      const voucher = createVoucher({
+        ...voucherParams,
+        nonce: 0,
+        valueAggregate: "2000",
+        timestamp: Math.floor(Date.now() / 1000) - 1,
+      });
+      const payment = encodePayment(voucher, await signTestVoucher(voucher));
+      const getRange = () =>
+        request(app)
+          .get(filePath)
+          .set("Authorization", `Bearer ${token}`)
+          .set("X-PAYMENT", payment);
+      const deliveryStates = async () =>
+        (
+          await request(app)
+            .get(`/admin/vouchers/${voucher.id}/deliveries`)
+            .set("Authorization", `Bearer ${ADMIN_TOKEN}`)
+        ).body.deliveries.map(({ state }: { state: string }) => state);
+
+      await expect(getRange()).rejects.toThrow();
+      await vi.waitFor(async () =>
+        expect(await deliveryStates()).toEqual(["failed"])
+      );
+
+      // The failed range isn't billed: the same voucher pays for a retry
+      const retry = await getRange();
+      expect(retry.status).toBe(206);
+      expect(retry.headers["x-payment-response"]).toBeDefined();
+      await vi.waitFor(async () =>
+        expect(await deliveryStates()).toEqual(["failed", "complete"])
+      );
+
+      // ...but only for one
+      const reused = await getRange();
+      expect(reused.status).toBe(402);
+      expect(reused.body.accepts[0].extra.type).toBe("aggregation");
+    });
+  });
+
+  describe("Native HLS playback", () => {
+    afterEach(() => {
+      vi.restoreAllMocks();
+    });
+
+    const mockOrigin = () =>
+      vi.spyOn(globalThis, "fetch").mockImplementation(async (input) =>
+        String(input).endsWith(".m3u8")
+          ? new Response("#EXTM3U\n#EXTINF:4,\nsegment0.ts\n", {
+              headers: { "content-type": "application/vnd.apple.mpegurl" },
+            })
+          : new Response("ts", { headers: { "content-type": "video/mp2t" } })
+      );
+
+    it("should exchange a voucher for a playback token accepted in URLs", async () => {
+      const { streamId, voucherParams } = await wrapSegment("1000");
+      const voucher = createVoucher({
+        ...voucherParams,
+        nonce: 0,
+        valueAggregate: "1000",
+      });
+      const exchange = await request(app)
+        .post(`/stream/${streamId}/vouchers`)
+        .set("Authorization", `Bearer ${await receiptTokenFor(streamId)}`)
+        .set(
+          "X-PAYMENT",
+          encodePayment(voucher, await signTestVoucher(voucher))
+        );
+      expect(exchange.status).toBe(200);
+      const { token } = exchange.body;
+
+      const fetchMock = mockOrigin();
+      const manifest = await request(app).get(
+        `/stream/${streamId}.m3u8?x402_token=${token}`
+      );
+      expect(manifest.status).toBe(200);
+      expect(manifest.text).toContain(
+        `/stream/${streamId}/segment0.ts?x402_token=${token}`
+      );
+
+      const segment = await request(app).get(
+        `/stream/${streamId}/segment0.ts?x402_token=${token}`
+      );
+      expect(segment.status).toBe(200);
+      // The token isn't passed through to the origin
+      expect(fetchMock.mock.calls[1][0]).toBe(
+        "https://example.com/segment0.ts"
+      );
+    });
+
+    it("should answer 503 or 500 when a playback token can't be issued", async () => {
+      // Signs the receipt and voucher up front, sends on call
+      const prepareExchange = async () => {
+        const { streamId, voucherParams } = await wrapSegment("1000");
+        const voucher = createVoucher({
+          ...voucherParams,
+          nonce: 0,
+          valueAggregate: "1000",
+        });
+        const token = await receiptTokenFor(streamId);
+        const payment = encodePayment(voucher, await signTestVoucher(voucher));
+        return () =>
+          request(app)
+            .post(`/stream/${streamId}/vouchers`)
+            .set("Authorization", `Bearer ${token}`)
+            .set("X-PAYMENT", payment);
+      };
+
+      // The middleware's revocation check (jti, sub and stream) passes,
+      // the handler's fails
+      const revocations = vi
+        .spyOn(revocationStore, "get")
+        .mockResolvedValueOnce(undefined)
+        .mockResolvedValueOnce(undefined)
+        .mockResolvedValueOnce(undefined)
+        .mockRejectedValue(new Error("connection refused"));
+      const storeDown = await (await prepareExchange())();
+      expect(storeDown.status).toBe(503);
+      expect(storeDown.body.error).toBe("Revocation store unavailable");
+      revocations.mockRestore();
+
+      const exchange = await prepareExchange();
+      vi.spyOn(receiptKeys, "getSigningKey").mockImplementation(() => {
+        throw new Error("no signing key");
+      });
+      const signingFailed = await exchange();
+      expect(signingFailed.status).toBe(500);
+      expect(signingFailed.body.error).toBe("Failed to issue playback token");
+    });
+
+    it("should refuse stale playback vouchers and plain receipts in URLs", async () => {
+      const { streamId, segmentPath, voucherParams } =
+        await wrapSegment("1000");
+      const now = Math.floor(Date.now() / 1000);
+      const stale = createVoucher({
+        ...voucherParams,
+        nonce: 0,
+        valueAggregate: "1000",
+        timestamp: now - config.voucherTimeWindow - 5,
+      });
+      await voucherStore.compareAndSet(stale.id, null, {
+        voucher: stale,
+        signature: await signTestVoucher(stale),
+      });
+      const receiptToken = await receiptTokenFor(streamId);
+      const token = await issuePlaybackToken(
+        await verifyReceiptToken(receiptToken),
+        stale.id,
+        now + 600
+      );
+      mockOrigin();
+
+      const staleSegment = await request(app).get(
+        `${segmentPath}?x402_token=${token}`
+      );
+      expect(staleSegment.status).toBe(402);
+      expect(staleSegment.body.error).toBe(
+        "Playback voucher expired, please aggregate"
+      );
+
+      const receiptSegment = await request(app).get(
+        `${segmentPath}?x402_token=${receiptToken}`
+      );
+      const receiptManifest = await request(app).get(
+        `/stream/${streamId}.m3u8?x402_token=${receiptToken}`
+      );
+      expect(receiptSegment.status).toBe(402);
+      expect(receiptManifest.status).toBe(402);
+    });
+  });
+
+  describe("External players", () => {
+    afterEach(() => {
+      vi.restoreAllMocks();
+    });
+
+    it("should issue a playback URL paid by a prepaid allowance", async () => {
+      const { streamId, voucherParams } = await wrapSegment("1000");
+      const voucher = createVoucher({
+        ...voucherParams,
+        nonce: 0,
+        valueAggregate: "3000",
+      });
+      const exchange = await request(app)
+        .post(`/stream/${streamId}/playback-url`)
+        .set("Authorization", `Bearer ${await receiptTokenFor(streamId)}`)
+        .set(
+          "X-PAYMENT",
+          encodePayment(voucher, await signTestVoucher(voucher))
+        );
+      expect(exchange.status).toBe(200);
+      expect(exchange.body.allowance).toBe("3000");
+      expect(exchange.body.expiresAt).toBe(voucher.expiry);
+
+      const [manifestUrl, query] = exchange.body.url.split("?");
+      expect(manifestUrl).toBe(`${config.baseUrl}/stream/${streamId}.m3u8`);
+      const token = new URLSearchParams(query).get("x402_token")!;
+      expect(await verifyPlaybackToken(token)).toMatchObject({
+        vid: voucher.id,
+        allowance: true,
+      });
+
+      vi.spyOn(globalThis, "fetch").mockResolvedValue(
+        new Response("ts", { headers: { "content-type": "video/mp2t" } })
+      );
+      const segment = await request(app).get(
+        `/stream/${streamId}/segment0.ts?x402_token=${token}`
+      );
+      expect(segment.status).toBe(200);
+    });
+
+    it("should answer 503 or 500 when a playback URL can't be issued", async () => {
+      // Signs the receipt and voucher up front, sends on call
+      const prepareExchange = async () => {
+        const { streamId, voucherParams } = await wrapSegment("1000");
+        const voucher = createVoucher({
+          ...voucherParams,
+          nonce: 0,
+          valueAggregate: "3000",
+        });
+        const token = await receiptTokenFor(streamId);
+        const payment = encodePayment(voucher, await signTestVoucher(voucher));
+        return () =>
+          request(app)
+            .post(`/stream/${streamId}/playback-url`)
+            .set("Authorization", `Bearer ${token}`)
+            .set("X-PAYMENT", payment);
+      };
+
+      // The middleware's revocation check (jti, sub and stream) passes,
+      // the handler's fails
+      const revocations = vi
+        .spyOn(revocationStore, "get")
+        .mockResolvedValueOnce(undefined)
+        .mockResolvedValueOnce(undefined)
+        .mockResolvedValueOnce(undefined)
+        .mockRejectedValue(new Error("connection refused"));
+      const storeDown = await (await prepareExchange())();
+      expect(storeDown.status).toBe(503);
+      expect(storeDown.body.error).toBe("Revocation store unavailable");
+      revocations.mockRestore();
+
+      const exchange = await prepareExchange();
+      vi.spyOn(receiptKeys, "getSigningKey").mockImplementation(() => {
+        throw new Error("no signing key");
+      });
+      const signingFailed = await exchange();
+      expect(signingFailed.status).toBe(500);
+      expect(signingFailed.body.error).toBe("Failed to issue playback URL");
+    });
+
+    it("should refuse allowance tokens once the allowance is spent", async () => {
+      const { streamId, segmentPath, voucherParams } =
+        await wrapSegment("1000");
+      const now = Math.floor(Date.now() / 1000);
+      // Pays for 3 reuse windows, signed just over 3 windows ago
+      const voucher = createVoucher({
+        ...voucherParams,
+        nonce: 0,
+        valueAggregate: "3000",
+        timestamp: now - 3 * config.voucherTimeWindow - 5,
+      });
+      await voucherStore.compareAndSet(voucher.id, null, {
+        voucher,
+        signature: await signTestVoucher(voucher),
+      });
+      const token = await issuePlaybackToken(
+        await verifyReceiptToken(await receiptTokenFor(streamId)),
+        voucher.id,
+        now + 600,
+        { allowance: true }
+      );
+      vi.spyOn(globalThis, "fetch").mockResolvedValue(
+        new Response("ts", { headers: { "content-type": "video/mp2t" } })
+      );
+
+      const res = await request(app).get(`${segmentPath}?x402_token=${token}`);
+      expect(res.status).toBe(402);
+      expect(res.body.error).toBe("Playback allowance exhausted");
+    });
+  });
+
+  describe("LL-HLS", () => {
+    const playlist = "#EXTM3U\n#EXT-X-TARGETDURATION:4\n";
+
+    afterEach(() => {
+      vi.restoreAllMocks();
+    });
+
+    const mockOrigin = () =>
+      vi.spyOn(globalThis, "fetch").mockImplementation(
+        async () =>
+          new Response(playlist, {
+            headers: { "content-type": "application/vnd.apple.mpegurl" },
+          })
+      );
+
+    it("should forward blocking reload directives on the manifest", async () => {
+      const { streamId } = await wrapSegment("1000");
+      const fetchMock = mockOrigin();
+
+      const response = await request(app)
+        .get(`/stream/${streamId}.m3u8?_HLS_msn=267&_HLS_part=1&foo=bar`)
+        .set("Authorization", `Bearer ${await receiptTokenFor(streamId)}`);
+
+      expect(response.status).toBe(200);
+      const [url, init] = fetchMock.mock.calls[0];
+      expect(url).toBe(
+        "https://example.com/video.m3u8?_HLS_msn=267&_HLS_part=1"
+      );
+      expect(init?.signal).toBeInstanceOf(AbortSignal);
+    });
+
+    it("should pass the query string through on media playlists and parts", async () => {
+      const { streamId, segmentPath, voucherParams } =
+        await wrapSegment("1000");
+      const voucher = createVoucher({
+        ...voucherParams,
+        nonce: 0,
+        valueAggregate: "1000",
+      });
+      const fetchMock = mockOrigin();
+
+      const response = await request(app)
+        .get(
+          segmentPath.replace(
+            "segment0.ts",
+            "2M/live.m3u8?_HLS_msn=267&_HLS_skip=YES"
+          )
+        )
+        .set("Authorization", `Bearer ${await receiptTokenFor(streamId)}`)
+        .set(
+          "X-PAYMENT",
+          encodePayment(voucher, await signTestVoucher(voucher))
+        );
+
+      expect(response.status).toBe(200);
+      expect(fetchMock.mock.calls[0][0]).toBe(
+        "https://example.com/2M/live.m3u8?_HLS_msn=267&_HLS_skip=YES"
+      );
+      expect(response.text).toContain("#EXT-X-TARGETDURATION:4");
+    });
+
+    it("should respond 504 when a blocking reload times out", async () => {
+      const { streamId } = await wrapSegment("1000");
+      vi.spyOn(globalThis, "fetch").mockRejectedValue(
+        new DOMException("The operation was aborted", "TimeoutError")
+      );
+
+      const response = await request(app)
+        .get(`/stream/${streamId}.m3u8?_HLS_msn=300`)
+        .set("Authorization", `Bearer ${await receiptTokenFor(streamId)}`);
+
+      expect(response.status).toBe(504);
+    });
+  });
+
   describe("GET /stream/:id.:ext (proxying)", () => {
     it("should proxy HLS manifest and rewrite URLs", async () => {
       const hlsUrl =
@@ -240,6 +1240,262 @@ describe("X402 Proxy Server", () => {
   });
 
   describe("GET /stream/:id/*", () => {
+    it("should advertise voucher terms in PaymentRequirements.extra", async () => {
+      const wrapResponse = await request(app)
+        .post("/wrap")
+        .send({ url: "https://example.com/video.m3u8", stepAmount: "2500" });
+      const segmentPath = wrapResponse.body.wrappedUrl
+        .match(/\/stream\/.+$/)[0]
+        .replace(".m3u8", "/segment0.ts");
+
+      const response = await request(app).get(segmentPath);
+
+      expect(response.status).toBe(402);
+      expect(response.body.accepts[0].extra).toMatchObject({
+        type: "new",
+        stepAmount: "2500",
+        timeWindow: config.voucherTimeWindow,
+        expirySeconds: config.voucherExpirySeconds,
+      });
+    });
+
+    it("should refuse aggregation beyond the voucher maxValue", async () => {
+      const { streamId, segmentPath, voucherParams } =
+        await wrapSegment("1000");
+      const params = { ...voucherParams, maxValue: "1500" };
+
+      // Nonce 0 already accepted for the first window
+      const first = createVoucher({
+        ...params,
+        nonce: 0,
+        valueAggregate: "1000",
+      });
+      await voucherStore.compareAndSet(first.id, null, {
+        voucher: first,
+        signature: await signTestVoucher(first),
+      });
+
+      const next = createVoucher({
+        ...params,
+        nonce: 1,
+        valueAggregate: "2000",
+      });
+      const response = await request(app)
+        .get(segmentPath)
+        .set("Authorization", `Bearer ${await receiptTokenFor(streamId)}`)
+        .set("X-PAYMENT", encodePayment(next, await signTestVoucher(next)));
+
+      expect(response.status).toBe(402);
+      expect(response.body.error).toBe("Voucher budget exceeded");
+      expect(response.body.accepts[0].extra).toMatchObject({
+        type: "budget-exceeded",
+        exhausted: { id: first.id, maxValue: "1500", valueAggregate: "1000" },
+      });
+      expect(response.body.accepts[0].extra.voucher.id).not.toBe(first.id);
+    });
+
+    it("should require the manifest receipt with a voucher", async () => {
+      const { segmentPath, voucherParams } = await wrapSegment("1000");
+      const voucher = createVoucher({
+        ...voucherParams,
+        nonce: 0,
+        valueAggregate: "1000",
+      });
+
+      const response = await request(app)
+        .get(segmentPath)
+        .set(
+          "X-PAYMENT",
+          encodePayment(voucher, await signTestVoucher(voucher))
+        );
+
+      expect(response.status).toBe(401);
+    });
+
+    it("should reject a voucher bound to another stream", async () => {
+      const streamA = await wrapSegment("1000");
+      const streamB = await wrapSegment("1000");
+      const voucher = createVoucher({
+        ...streamA.voucherParams,
+        nonce: 0,
+        valueAggregate: "1000",
+      });
+
+      const response = await request(app)
+        .get(streamB.segmentPath)
+        .set(
+          "Authorization",
+          `Bearer ${await receiptTokenFor(streamB.streamId)}`
+        )
+        .set(
+          "X-PAYMENT",
+          encodePayment(voucher, await signTestVoucher(voucher))
+        );
+
+      expect(response.status).toBe(402);
+      expect(response.body.error).toBe(
+        `Resource mismatch: expected ${streamB.streamId}`
+      );
+    });
+
+    it("should reject a voucher from another buyer than the receipt", async () => {
+      const { streamId, segmentPath, voucherParams } =
+        await wrapSegment("1000");
+      const voucher = createVoucher({
+        ...voucherParams,
+        nonce: 0,
+        valueAggregate: "1000",
+      });
+      const otherBuyer = privateKeyToAccount(generatePrivateKey()).address;
+
+      const response = await request(app)
+        .get(segmentPath)
+        .set(
+          "Authorization",
+          `Bearer ${await receiptTokenFor(streamId, otherBuyer)}`
+        )
+        .set(
+          "X-PAYMENT",
+          encodePayment(voucher, await signTestVoucher(voucher))
+        );
+
+      expect(response.status).toBe(402);
+      expect(response.body.error).toMatch(/^Buyer mismatch/);
+    });
+
+    it("should block absolute segment URLs pointing at private addresses", async () => {
+      const { streamId, voucherParams } = await wrapSegment("1000");
+      const voucher = createVoucher({
+        ...voucherParams,
+        nonce: 0,
+        valueAggregate: "1000",
+      });
+      const fetchMock = vi.spyOn(globalThis, "fetch");
+
+      const response = await request(app)
+        .get(
+          `/stream/${streamId}/${encodeURIComponent("http://[::ffff:169.254.169.254]/latest/meta-data")}`
+        )
+        .set("Authorization", `Bearer ${await receiptTokenFor(streamId)}`)
+        .set(
+          "X-PAYMENT",
+          encodePayment(voucher, await signTestVoucher(voucher))
+        );
+
+      expect(response.status).toBe(403);
+      expect(response.body.error).toBe("Upstream not allowed");
+      expect(fetchMock).not.toHaveBeenCalled();
+      fetchMock.mockRestore();
+    });
+
+    it("should send X-PAYMENT-RESPONSE before streaming the segment", async () => {
+      const { streamId, segmentPath, voucherParams } =
+        await wrapSegment("1000");
+      const voucher = createVoucher({
+        ...voucherParams,
+        nonce: 0,
+        valueAggregate: "1000",
+      });
+      // The origin only finishes the body once the client saw the headers
+      let release!: () => void;
+      const released = new Promise<void>((resolve) => (release = resolve));
+      const encoder = new TextEncoder();
+      const body = new ReadableStream<Uint8Array>({
+        async start(controller) {
+          controller.enqueue(encoder.encode("first "));
+          await released;
+          controller.enqueue(encoder.encode("last"));
+          controller.close();
+        },
+      });
+      const fetchMock = vi
+        .spyOn(globalThis, "fetch")
+        .mockResolvedValue(new Response(body));
+      let paymentResponse: string | undefined;
+
+      const response = await request(app)
+        .get(segmentPath)
+        .set("Authorization", `Bearer ${await receiptTokenFor(streamId)}`)
+        .set(
+          "X-PAYMENT",
+          encodePayment(voucher, await signTestVoucher(voucher))
+        )
+        .buffer(true)
+        .parse((res, callback) => {
+          paymentResponse = res.headers["x-payment-response"] as string;
+          release();
+          let text = "";
+          res.on("data", (chunk: Buffer) => (text += chunk));
+          res.on("end", () => callback(null, text));
+        });
+
+      expect(response.status).toBe(200);
+      expect(response.body).toBe("first last");
+      expect(JSON.parse(paymentResponse!)).toMatchObject({
+        scheme: "deferred",
+        id: voucher.id,
+        success: true,
+      });
+      fetchMock.mockRestore();
+    });
+
+    it("should answer 503 when the voucher store fails", async () => {
+      const { streamId, segmentPath, voucherParams } =
+        await wrapSegment("1000");
+      const voucher = createVoucher({
+        ...voucherParams,
+        nonce: 0,
+        valueAggregate: "1000",
+      });
+      const get = vi
+        .spyOn(voucherStore, "get")
+        .mockRejectedValue(new Error("Connection is closed."));
+
+      const response = await request(app)
+        .get(segmentPath)
+        .set("Authorization", `Bearer ${await receiptTokenFor(streamId)}`)
+        .set(
+          "X-PAYMENT",
+          encodePayment(voucher, await signTestVoucher(voucher))
+        );
+
+      expect(response.status).toBe(503);
+      expect(response.body.error).toBe("Payment service unavailable");
+      get.mockRestore();
+    });
+
+    it("should answer 504 when the origin stalls", async () => {
+      const { streamId, segmentPath, voucherParams } =
+        await wrapSegment("1000");
+      const voucher = createVoucher({
+        ...voucherParams,
+        nonce: 0,
+        valueAggregate: "1000",
+      });
+      const fetchMock = vi.spyOn(globalThis, "fetch").mockRejectedValue(
+        Object.assign(new TypeError("fetch failed"), {
+          cause: Object.assign(new Error("Headers Timeout Error"), {
+            code: "UND_ERR_HEADERS_TIMEOUT",
+          }),
+        })
+      );
+
+      const response = await request(app)
+        .get(segmentPath)
+        .set("Authorization", `Bearer ${await receiptTokenFor(streamId)}`)
+        .set(
+          "X-PAYMENT",
+          encodePayment(voucher, await signTestVoucher(voucher))
+        );
+
+      expect(response.status).toBe(504);
+      expect(response.body.error).toBe("Upstream timeout");
+      expect(response.headers["x-payment-response"]).toBeUndefined();
+      // Aborted if the viewer goes away first
+      expect(fetchMock.mock.calls[0][1]?.signal).toBeInstanceOf(AbortSignal);
+      fetchMock.mockRestore();
+    });
+
     it("should proxy HLS segments", async () => {
       const hlsUrl =
         "https://demo.unified-streaming.com/k8s/features/stable/video/tears-of-steel/tears-of-steel.ism/.m3u8";
@@ -1,24 +1,123 @@
-import express, { type Application } from "express";
+import express, {
+  type Application,
+  type Request,
+  type RequestHandler,
+  type Response,
+} from "express";
+import { isAddress } from "viem";
+import { randomUUID } from "node:crypto";
+import {
+  decodePayment,
+  type DeferredVoucher,
+} from "@x402-video-paylink/deferred";
+import type { PaymentReceipt } from "@x402-video-paylink/payment-receipt";
 import { createId } from "@paralleldrive/cuid2";
 import path from "path";
 import { fileURLToPath } from "url";
 import { dirname } from "path";
 import { config, isUpstreamAllowed, detectStreamKind } from "./config.js";
-import type { Wrapped, WrapRequest, WrapResponse } from "./types.js";
-import { fetchUpstream, getManifestRewriter, getContentType } from "./utils.js";
+import type {
+  DeliveryReport,
+  PaymentOverrides,
+  PlaybackTokenResponse,
+  PlaybackUrlResponse,
+  RevocationRequest,
+  Wrapped,
+  WrapRequest,
+  WrapResponse,
+} from "./types.js";
+import {
+  appendQuery,
+  fetchUpstream,
+  getClientAbortSignal,
+  getContentType,
+  getManifestKind,
+  getRequestQuery,
+  HLS_DELIVERY_DIRECTIVES,
+  isUpstreamTimeout,
+  pipeUpstreamBody,
+  removeQueryParam,
+} from "./utils.js";
+import { getManifestRewriter, getOriginBase } from "./rewriters/index.js";
 import { createJWTExactMiddleware } from "./middleware/jwt-exact.js";
 import { createDeferredPaymentMiddleware } from "./middleware/deferred-payment.js";
+import { createAdminAuthMiddleware } from "./middleware/admin-auth.js";
+import { createWrappedStreamStore } from "./stores/wrapped-stream-store.js";
+import { createVoucherStore } from "./stores/voucher-store.js";
+import {
+  createRevocationStore,
+  type Revocation,
+} from "./stores/revocation-store.js";
+import { createDeliveryLedger } from "./stores/delivery-ledger.js";
+import { logger, runWithRequestId } from "./logger.js";
+import { getMaxTokenLifetime } from "./receipt-keys.js";
+import { isUpstreamBlocked } from "./upstream-guard.js";
+import { createUpstreamCache } from "./cache/upstream-cache.js";
+import {
+  getPlaybackTokenParam,
+  getRequestReceipt,
+  getStreamId,
+  issuePlaybackToken,
+  PLAYBACK_TOKEN_PARAM,
+  receiptKeys,
+} from "./receipts.js";
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
 
 export const app: Application = express();
-const wrapped = new Map<string, Wrapped>();
+const wrapped = createWrappedStreamStore();
+// Shared with the settlement pipeline (see server.ts)
+export const voucherStore = createVoucherStore();
+// Receipt revocations, consulted by both payment middlewares
+export const revocationStore = createRevocationStore();
+// What each deferred payment delivered (failed deliveries aren't billed)
+export const deliveryLedger = createDeliveryLedger();
+// Segments and manifests shared between viewers (progressive files bypass it)
+const upstreamCache = createUpstreamCache();
+// Client request ids passed through as-is (others are replaced by a UUID)
+const REQUEST_ID_PATTERN = /^[\w.:-]{1,128}$/;
+
+// Per-stream payment settings from the wrapped stream registry
+// (null = unknown stream, nothing to pay for; the route handler responds 404).
+// Registry failures are rethrown: the payment middlewares answer 503
+// rather than serving the stream for free
+async function resolveStreamPayment(
+  req: Request
+): Promise<PaymentOverrides | null> {
+  const id = getStreamId(req.path);
+  if (!id) return null;
+
+  let stream: Wrapped | undefined;
+  try {
+    stream = await wrapped.get(id);
+  } catch (err) {
+    logger.error("stream.lookup_failed", { streamId: id, error: err });
+    throw err;
+  }
+  if (!stream) return null;
+
+  const isMainFile = /^\/stream\/[^\/]+\.[^\/]+$/.test(req.path);
+  return {
+    price: stream.price,
+    stepAmount: stream.stepAmount,
+    payTo: stream.payTo,
+    title: stream.title,
+    description: stream.description,
+    live: stream.live,
+    progressive: stream.kind === "progressive",
+    mimeType: isMainFile
+      ? getContentType(stream.kind, stream.originalExt)
+      : undefined,
+  };
+}
 
 // Manifest (/stream/{id}.{ext}) uses exact scheme (one-time payment, returns JWT)
 // Matches: /stream/abc.m3u8, /stream/xyz.mpd, /stream/foo.mp4
 const exactPaymentMiddleware = createJWTExactMiddleware({
   merchantAddress: config.merchantAddress,
+  resolvePaymentOptions: resolveStreamPayment,
+  revocationStore,
   routes: {
     "/stream/*.*": {
       price: config.streamPriceUSDC,
@@ -31,6 +130,10 @@ const exactPaymentMiddleware = createJWTExactMiddleware({
 // Matches: /stream/abc/segment0.ts, /stream/abc/path/to/file.m3u8
 const deferredPaymentMiddleware = createDeferredPaymentMiddleware({
   merchantAddress: config.merchantAddress,
+  voucherStore,
+  revocationStore,
+  deliveryLedger,
+  resolvePaymentOptions: resolveStreamPayment,
   routes: {
     "/stream/**/*": {
       price: config.streamPriceUSDC,
@@ -39,6 +142,72 @@ const deferredPaymentMiddleware = createDeferredPaymentMiddleware({
   },
 });
 
+// Live manifests (/stream/{id}.{ext}) are metered like segments, so
+// playlist refreshes stop once the buyer stops aggregating
+const liveManifestMiddleware = createDeferredPaymentMiddleware({
+  merchantAddress: config.merchantAddress,
+  voucherStore,
+  revocationStore,
+  deliveryLedger,
+  resolvePaymentOptions: async (req) => {
+    const overrides = await resolveStreamPayment(req);
+    return overrides?.live ? overrides : null;
+  },
+  routes: {
+    "/stream/*.*": {
+      price: config.streamPriceUSDC,
+      network: config.network,
+    },
+  },
+});
+
+// Progressive files (/stream/{id}.{ext}) are metered per byte range once
+// purchased, each range request costing one voucher aggregation
+const progressiveRangeMiddleware = createDeferredPaymentMiddleware({
+  merchantAddress: config.merchantAddress,
+  voucherStore,
+  revocationStore,
+  deliveryLedger,
+  resolvePaymentOptions: async (req) => {
+    const overrides = await resolveStreamPayment(req);
+    return overrides?.progressive ? overrides : null;
+  },
+  routes: {
+    "/stream/*.*": {
+      price: config.streamPriceUSDC,
+      network: config.network,
+    },
+  },
+});
+
+const manifestPaymentMiddleware: RequestHandler[] = [
+  exactPaymentMiddleware,
+  liveManifestMiddleware,
+  progressiveRangeMiddleware,
+];
+
+// Request correlation: log entries and upstream fetches of a request carry
+// its id (the client's X-Request-Id when well-formed)
+app.use((req, res, next) => {
+  const incoming = req.header("X-Request-Id");
+  const requestId =
+    incoming && REQUEST_ID_PATTERN.test(incoming) ? incoming : randomUUID();
+  const startedAt = Date.now();
+  res.setHeader("X-Request-Id", requestId);
+  res.once("close", () =>
+    runWithRequestId(requestId, () =>
+      logger.info("request.completed", {
+        method: req.method,
+        path: req.path,
+        status: res.statusCode,
+        durationMs: Date.now() - startedAt,
+        aborted: !res.writableFinished,
+      })
+    )
+  );
+  runWithRequestId(requestId, next);
+});
+
 app.use(express.json());
 
 // CORS middleware
@@ -47,11 +216,11 @@ app.use((req, res, next) => {
   res.setHeader("Access-Control-Allow-Methods", "GET, POST, OPTIONS");
   res.setHeader(
     "Access-Control-Allow-Headers",
-    "Content-Type, X-PAYMENT, Authorization"
+    "Content-Type, X-PAYMENT, Authorization, X-Request-Id"
   );
   res.setHeader(
     "Access-Control-Expose-Headers",
-    "X-PAYMENT-RESPONSE"
+    "X-PAYMENT-RESPONSE, X-Request-Id"
   );
 
   if (req.method === "OPTIONS") {
@@ -61,6 +230,24 @@ app.use((req, res, next) => {
   next();
 });
 
+// Look up a wrapped stream, responding with 404/500 when it can't be served
+async function findStream(
+  id: string,
+  res: Response
+): Promise<Wrapped | undefined> {
+  try {
+    const stream = await wrapped.get(id);
+    if (!stream) {
+      res.status(404).json({ error: "Stream not found" });
+    }
+    return stream;
+  } catch (err) {
+    logger.error("stream.lookup_failed", { streamId: id, error: err });
+    res.status(500).json({ error: "Stream lookup failed" });
+    return undefined;
+  }
+}
+
 // Root - Serve paylink UI
 app.get("/", (_req, res) => {
   // Path works both locally (from src) and in Docker (from dist)
@@ -77,13 +264,71 @@ app.get("/health", (_req, res) => {
   res.json({ status: "ok" });
 });
 
+// Public receipt keys, so CDNs and edge workers can verify receipt JWTs
+app.get("/.well-known/jwks.json", (_req, res) => {
+  res.setHeader("Cache-Control", "public, max-age=300");
+  res.json(receiptKeys.getJwks());
+});
+
+// Validate optional per-stream pricing fields of a wrap request
+function validatePricing(body: WrapRequest): string | undefined {
+  if (body.live !== undefined && typeof body.live !== "boolean") {
+    return 'Invalid "live": expected a boolean';
+  }
+
+  // Live streams may waive the manifest fee and only meter viewing time
+  if (
+    body.price !== undefined &&
+    (typeof body.price !== "string" ||
+      !/^\d+(\.\d{1,6})?$/.test(body.price) ||
+      (Number(body.price) === 0 && body.live !== true))
+  ) {
+    return 'Invalid "price": expected a positive USDC amount like "0.05" ("0" for live streams)';
+  }
+
+  if (
+    body.stepAmount !== undefined &&
+    (typeof body.stepAmount !== "string" ||
+      !/^\d+$/.test(body.stepAmount) ||
+      BigInt(body.stepAmount) === 0n)
+  ) {
+    return 'Invalid "stepAmount": expected a positive integer in atomic units';
+  }
+
+  if (
+    body.payTo !== undefined &&
+    (typeof body.payTo !== "string" || !isAddress(body.payTo))
+  ) {
+    return 'Invalid "payTo": expected a 0x-prefixed address';
+  }
+
+  if (
+    body.title !== undefined &&
+    (typeof body.title !== "string" || body.title.length > 200)
+  ) {
+    return 'Invalid "title": expected a string of at most 200 characters';
+  }
+
+  if (
+    body.description !== undefined &&
+    (typeof body.description !== "string" || body.description.length > 1000)
+  ) {
+    return 'Invalid "description": expected a string of at most 1000 characters';
+  }
+}
+
 // POST /wrap - Wrap a video URL
-app.post("/wrap", (req, res) => {
+app.post("/wrap", async (req, res) => {
   const body = req.body as WrapRequest;
   if (!body.url || typeof body.url !== "string") {
     return res.status(400).json({ error: 'Missing or invalid "url" field' });
   }
 
+  const pricingError = validatePricing(body);
+  if (pricingError) {
+    return res.status(400).json({ error: pricingError });
+  }
+
   // Check if upstream is allowed (SSRF protection)
   if (!isUpstreamAllowed(body.url)) {
     return res.status(403).json({
@@ -100,11 +345,14 @@ app.post("/wrap", (req, res) => {
     });
   }
 
+  if (body.live && kind === "progressive") {
+    return res
+      .status(400)
+      .json({ error: 'Invalid "live": only HLS and DASH streams can be live' });
+  }
+
   // Generate ID
   const id = createId();
-  if (wrapped.has(id)) {
-    return res.status(409).json({ error: "ID already exists" });
-  }
 
   // Extract original extension for progressive streams
   const originalExt = (() => {
@@ -121,9 +369,23 @@ app.post("/wrap", (req, res) => {
     kind,
     createdAt: Date.now(),
     originalExt,
+    price: body.price,
+    stepAmount: body.stepAmount,
+    payTo: body.payTo,
+    title: body.title,
+    description: body.description,
+    live: body.live || undefined,
   };
 
-  wrapped.set(id, wrappedStream);
+  try {
+    if (await wrapped.has(id)) {
+      return res.status(409).json({ error: "ID already exists" });
+    }
+    await wrapped.set(wrappedStream);
+  } catch (err) {
+    logger.error("stream.store_failed", { streamId: id, error: err });
+    return res.status(500).json({ error: "Failed to store wrapped stream" });
+  }
 
   const wrappedUrl = (() => {
     if (kind === "hls") {
@@ -140,13 +402,223 @@ app.post("/wrap", (req, res) => {
   res.json(response);
 });
 
+// POST /admin/revocations - Revoke receipts (refunds, chargebacks, stolen tokens)
+app.post(
+  "/admin/revocations",
+  createAdminAuthMiddleware(),
+  async (req, res) => {
+    const body = req.body as RevocationRequest;
+    const targets = (["jti", "sub", "streamId"] as const).filter(
+      (field) => body[field] !== undefined
+    );
+    if (
+      targets.length !== 1 ||
+      typeof body[targets[0]] !== "string" ||
+      !body[targets[0]]
+    ) {
+      return res.status(400).json({
+        error: 'Exactly one of "jti", "sub" or "streamId" is required',
+      });
+    }
+    if (body.sub !== undefined && !isAddress(body.sub)) {
+      return res.status(400).json({ error: 'Invalid "sub" address' });
+    }
+
+    const kind = targets[0] === "streamId" ? "stream" : targets[0];
+    const value = body[targets[0]]!;
+    const now = Math.floor(Date.now() / 1000);
+    const revocation: Revocation = {
+      kind,
+      // Receipt sub is the lowercased payer address
+      value: kind === "sub" ? value.toLowerCase() : value,
+      revokedAt: now,
+      // Receipts and the playback tokens derived from them issued until now
+      // have all expired after the longest token lifetime
+      expiresAt: now + getMaxTokenLifetime(),
+      reason: typeof body.reason === "string" ? body.reason : undefined,
+    };
+
+    try {
+      await revocationStore.revoke(revocation);
+    } catch (err) {
+      logger.error("revocation.store_failed", { error: err });
+      return res.status(500).json({ error: "Failed to store revocation" });
+    }
+
+    logger.info("receipt.revoked", {
+      kind: revocation.kind,
+      value: revocation.value,
+      reason: revocation.reason,
+    });
+    res.status(201).json({ revocation });
+  }
+);
+
+// GET /admin/vouchers/:id/deliveries - Delivery ledger of a voucher
+app.get(
+  "/admin/vouchers/:id/deliveries",
+  createAdminAuthMiddleware(),
+  async (req, res) => {
+    try {
+      const deliveries = await deliveryLedger.list(req.params.id);
+      res.json({ deliveries });
+    } catch (err) {
+      logger.error("delivery.read_failed", {
+        voucherId: req.params.id,
+        error: err,
+      });
+      res.status(500).json({ error: "Failed to read deliveries" });
+    }
+  }
+);
+
+// Receipt a playback token is derived from: the request's receipt, or for
+// free live streams (no receipt issued) one for the voucher's buyer.
+// Responds 503 (and returns undefined) if the revocation store fails
+async function getPlaybackReceipt(
+  req: Request,
+  res: Response,
+  id: string,
+  voucher: DeferredVoucher
+): Promise<{ receipt: PaymentReceipt; expiresAt: number } | undefined> {
+  const now = Math.floor(Date.now() / 1000);
+  let receipt: PaymentReceipt | null;
+  try {
+    receipt = await getRequestReceipt(req, revocationStore);
+  } catch (err) {
+    logger.error("revocation.read_failed", { streamId: id, error: err });
+    res.status(503).json({ error: "Revocation store unavailable" });
+    return undefined;
+  }
+  return {
+    receipt: receipt ?? {
+      iss: config.baseUrl,
+      sub: voucher.buyer.toLowerCase(),
+      req: "",
+      iat: now,
+      jti: randomUUID(),
+      scope: [`${config.baseUrl}/stream/${id}*`],
+    },
+    expiresAt: (receipt as { exp?: number } | null)?.exp ?? now + config.jwtTTL,
+  };
+}
+
+// POST /stream/:id/vouchers - Exchange the current voucher (validated and
+// aggregated like a segment request) for a playback token, which native
+// players (Safari HLS, AirPlay) carry in the stream URL instead of headers
+app.post(
+  "/stream/:id/vouchers",
+  deferredPaymentMiddleware,
+  async (req, res) => {
+    const { id } = req.params;
+    const stream = await findStream(id, res);
+    if (!stream) return;
+
+    if (stream.kind !== "hls") {
+      return res
+        .status(400)
+        .json({ error: "Playback tokens are only issued for HLS streams" });
+    }
+
+    const payment = req.header("X-PAYMENT");
+    if (!payment) {
+      return res.status(400).json({ error: "X-PAYMENT header is required" });
+    }
+
+    try {
+      const { voucher } = decodePayment(payment).payload;
+      const playback = await getPlaybackReceipt(req, res, id, voucher);
+      if (!playback) return;
+
+      // Never outlives the receipt or the voucher it stands for
+      const expiresAt = Math.min(playback.expiresAt, voucher.expiry);
+
+      const response: PlaybackTokenResponse = {
+        token: await issuePlaybackToken(
+          playback.receipt,
+          voucher.id,
+          expiresAt
+        ),
+        expiresAt,
+      };
+      logger.info("playback.token_issued", {
+        streamId: id,
+        voucherId: voucher.id,
+      });
+      res.json(response);
+    } catch (err) {
+      logger.error("playback.token_failed", { streamId: id, error: err });
+      res.status(500).json({ error: "Failed to issue playback token" });
+    }
+  }
+);
+
+// POST /stream/:id/playback-url - Exchange the receipt and a prepaid
+// allowance voucher (its valueAggregate funds the whole session) for a
+// manifest URL external players (VLC, ffmpeg, TV apps) can open as-is: the
+// manifest and every rewritten URI carry the allowance token
+app.post(
+  "/stream/:id/playback-url",
+  deferredPaymentMiddleware,
+  async (req, res) => {
+    if (!config.externalPlayback) {
+      return res.status(404).json({ error: "External playback is disabled" });
+    }
+
+    const { id } = req.params;
+    const stream = await findStream(id, res);
+    if (!stream) return;
+
+    if (stream.kind === "progressive") {
+      return res.status(400).json({
+        error: "Playback URLs are only issued for HLS and DASH streams",
+      });
+    }
+
+    const payment = req.header("X-PAYMENT");
+    if (!payment) {
+      return res.status(400).json({ error: "X-PAYMENT header is required" });
+    }
+
+    try {
+      const { voucher } = decodePayment(payment).payload;
+      const playback = await getPlaybackReceipt(req, res, id, voucher);
+      if (!playback) return;
+
+      // The server holds the voucher from here on: the token lasts as long
+      // as the voucher, the deferred middleware meters what its value covers
+      const expiresAt = voucher.expiry;
+      const token = await issuePlaybackToken(
+        playback.receipt,
+        voucher.id,
+        expiresAt,
+        { allowance: true }
+      );
+      const ext = stream.kind === "dash" ? "mpd" : "m3u8";
+      const query = new URLSearchParams({ [PLAYBACK_TOKEN_PARAM]: token });
+
+      const response: PlaybackUrlResponse = {
+        url: `${config.baseUrl}/stream/${id}.${ext}?${query}`,
+        expiresAt,
+        allowance: voucher.valueAggregate,
+      };
+      logger.info("playback.url_issued", {
+        streamId: id,
+        voucherId: voucher.id,
+      });
+      res.json(response);
+    } catch (err) {
+      logger.error("playback.url_failed", { streamId: id, error: err });
+      res.status(500).json({ error: "Failed to issue playback URL" });
+    }
+  }
+);
+
 // GET /stream/:id.:ext - Proxy main file (manifest or progressive stream)
-app.get("/stream/:id.:ext", exactPaymentMiddleware, async (req, res) => {
+app.get("/stream/:id.:ext", ...manifestPaymentMiddleware, async (req, res) => {
   const { id, ext } = req.params;
-  const stream = wrapped.get(id);
-  if (!stream) {
-    return res.status(404).json({ error: "Stream not found" });
-  }
+  const stream = await findStream(id, res);
+  if (!stream) return;
 
   // Verify extension matches stream kind
   if (stream.kind === "hls" && ext !== "m3u8") {
@@ -165,13 +637,34 @@ app.get("/stream/:id.:ext", exactPaymentMiddleware, async (req, res) => {
       .json({ error: `Extension mismatch: expected .${stream.originalExt}` });
   }
 
+  // Stop fetching from the origin when the viewer goes away
+  const signal = getClientAbortSignal(res);
+
   try {
     // For HLS/DASH manifests, we need to rewrite URLs
     if (stream.kind === "hls" || stream.kind === "dash") {
-      // Fetch from origin (no range limiting for manifests)
-      const upstreamRes = await fetchUpstream(
-        stream.originUrl,
-        req.headers as Record<string, string>
+      // Forward LL-HLS delivery directives (blocking playlist reload,
+      // playlist delta updates); the origin may hold the request
+      const directives = new URLSearchParams();
+      for (const [key, value] of new URLSearchParams(
+        getRequestQuery(req.originalUrl)
+      )) {
+        if (HLS_DELIVERY_DIRECTIVES.includes(key)) {
+          directives.append(key, value);
+        }
+      }
+
+      // Fetch from origin or the cache (no range limiting for manifests)
+      const startedAt = Date.now();
+      const upstreamRes = await upstreamCache.fetch(
+        appendQuery(stream.originUrl, directives.toString()),
+        req.headers as Record<string, string>,
+        {
+          timeoutMs: directives.has("_HLS_msn")
+            ? config.hlsBlockingReloadTimeoutMs
+            : undefined,
+          signal,
+        }
       );
 
       if (!upstreamRes.ok) {
@@ -182,7 +675,13 @@ app.get("/stream/:id.:ext", exactPaymentMiddleware, async (req, res) => {
       const body = await upstreamRes.text();
 
       const rewriter = getManifestRewriter(stream.kind);
-      const rewritten = rewriter.rewrite(body, id, config.baseUrl);
+      const rewritten = rewriter.rewrite(body, {
+        streamId: id,
+        baseUrl: config.baseUrl,
+        originUrl: stream.originUrl,
+        // Native players keep the token in every URL they request
+        playbackToken: getPlaybackTokenParam(req),
+      });
 
       res.setHeader("Content-Type", contentType);
       res.setHeader("Access-Control-Allow-Origin", "*");
@@ -193,21 +692,27 @@ app.get("/stream/:id.:ext", exactPaymentMiddleware, async (req, res) => {
       res.setHeader("Expires", "0");
 
       res.send(rewritten);
-      console.log(
-        `[MANIFEST] ${stream.kind} manifest proxied: ${id} (${body.length} -> ${rewritten.length} bytes)`
-      );
+      logger.info("upstream.fetched", {
+        streamId: id,
+        kind: stream.kind,
+        status: upstreamRes.status,
+        cache: upstreamRes.headers.get("x-cache") ?? undefined,
+        bytes: body.length,
+        rewrittenBytes: rewritten.length,
+        latencyMs: Date.now() - startedAt,
+      });
       return;
     }
 
     // Progressive stream - pipe through with range limiting
     {
-      // Limit range requests to prevent excessive buffering (~10 seconds of video)
-      // Assuming ~5 Mbps video = ~625 KB/s, 10 seconds = ~6.25 MB
-      // Set limit to 10 MB to be safe
-      const MAX_RANGE_BYTES = 10 * 1024 * 1024; // 10 MB
+      // Limit range requests to prevent excessive buffering; each range is
+      // also what one voucher aggregation pays for
+      const MAX_RANGE_BYTES = config.progressiveRangeBytes;
 
-      // Parse and potentially limit the range request
-      const rangeHeader = req.headers.range;
+      // Parse and potentially limit the range request (a request without
+      // Range only gets the first range)
+      const rangeHeader = req.headers.range ?? "bytes=0-";
       let limitedRangeHeader: string | undefined = rangeHeader;
 
       if (rangeHeader) {
@@ -221,19 +726,21 @@ app.get("/stream/:id.:ext", exactPaymentMiddleware, async (req, res) => {
             const maxEnd = start + MAX_RANGE_BYTES - 1;
             if (requestedEnd > maxEnd) {
               limitedRangeHeader = `bytes=${start}-${maxEnd}`;
-              console.log(
-                `[RANGE-LIMIT] ${id}: requested ${start}-${requestedEnd}, limited to ${start}-${maxEnd} (${
-                  maxEnd - start + 1
-                } bytes, max ${MAX_RANGE_BYTES})`
-              );
+              logger.debug("range.limited", {
+                streamId: id,
+                requested: rangeHeader,
+                limited: limitedRangeHeader,
+              });
             }
           } else {
             // If no end specified (e.g., "bytes=0-"), limit it
             const maxEnd = start + MAX_RANGE_BYTES - 1;
             limitedRangeHeader = `bytes=${start}-${maxEnd}`;
-            console.log(
-              `[RANGE-LIMIT] ${id}: requested ${start}- (open-ended), limited to ${start}-${maxEnd}`
-            );
+            logger.debug("range.limited", {
+              streamId: id,
+              requested: rangeHeader,
+              limited: limitedRangeHeader,
+            });
           }
         }
       }
@@ -245,7 +752,12 @@ app.get("/stream/:id.:ext", exactPaymentMiddleware, async (req, res) => {
       }
 
       // Fetch from origin with potentially limited range
-      const upstreamRes = await fetchUpstream(stream.originUrl, upstreamHeaders);
+      const startedAt = Date.now();
+      const upstreamRes = await fetchUpstream(
+        stream.originUrl,
+        upstreamHeaders,
+        { signal }
+      );
 
       const contentType =
         upstreamRes.headers.get("content-type") ||
@@ -274,28 +786,44 @@ app.get("/stream/:id.:ext", exactPaymentMiddleware, async (req, res) => {
         return;
       }
 
-      const reader = upstreamRes.body.getReader();
-      const streamChunks = async (totalBytes: number = 0): Promise<number> => {
-        try {
-          const { done, value } = await reader.read();
-          if (done) {
-            res.end();
-            return totalBytes;
-          }
-          res.write(value);
-          return streamChunks(totalBytes + value.length);
-        } catch (err) {
-          console.error(`[ERROR] Stream error for ${id}:`, err);
-          res.end();
-          return totalBytes;
-        }
-      };
-
-      const bytesTransferred = await streamChunks();
-      console.log(`[PROGRESSIVE] Streamed ${id}: ${bytesTransferred} bytes`);
+      const latencyMs = Date.now() - startedAt;
+      const { bytes, complete, error } = await pipeUpstreamBody(
+        upstreamRes.body,
+        res
+      );
+      res.locals.delivery = { bytes, complete } satisfies DeliveryReport;
+      if (!complete) {
+        logger.error("upstream.interrupted", {
+          streamId: id,
+          bytes,
+          error,
+        });
+        return;
+      }
+      logger.info("upstream.fetched", {
+        streamId: id,
+        kind: stream.kind,
+        status: upstreamRes.status,
+        range: limitedRangeHeader,
+        bytes,
+        latencyMs,
+        durationMs: Date.now() - startedAt,
+      });
     }
   } catch (err) {
-    console.error(`[ERROR] Proxy error for ${id}:`, err);
+    if (signal.aborted) {
+      logger.info("upstream.aborted", { streamId: id });
+      return;
+    }
+    if (isUpstreamTimeout(err)) {
+      logger.error("upstream.timeout", { streamId: id, error: err });
+      return res.status(504).json({ error: "Upstream timeout" });
+    }
+    if (isUpstreamBlocked(err)) {
+      logger.warn("upstream.blocked", { streamId: id, error: err });
+      return res.status(403).json({ error: "Upstream not allowed" });
+    }
+    logger.error("upstream.failed", { streamId: id, error: err });
     res.status(500).json({ error: "Proxy error" });
   }
 });
@@ -305,26 +833,33 @@ app.get("/stream/:id/*", deferredPaymentMiddleware, async (req, res) => {
   const { id } = req.params;
   const segmentPath = (req.params as any)[0] as string; // Everything after /stream/:id/
 
-  const stream = wrapped.get(id);
-  if (!stream) {
-    return res.status(404).json({ error: "Stream not found" });
-  }
+  const stream = await findStream(id, res);
+  if (!stream) return;
+
+  // Stop fetching from the origin when the viewer goes away
+  const signal = getClientAbortSignal(res);
 
   try {
-    // Reconstruct segment URL
-    const segmentUrl =
+    // Reconstruct segment URL, passing the query string through (signed
+    // segment URLs, LL-HLS _HLS_msn/_HLS_part on media playlists) except
+    // the playback token
+    const query = removeQueryParam(
+      getRequestQuery(req.originalUrl),
+      PLAYBACK_TOKEN_PARAM
+    );
+    const segmentUrl = appendQuery(
       segmentPath.startsWith("http%3A") || segmentPath.startsWith("https%3A")
         ? decodeURIComponent(segmentPath)
-        : (() => {
-            const originUrl = new URL(stream.originUrl);
-            const originBase =
-              originUrl.origin +
-              originUrl.pathname.substring(
-                0,
-                originUrl.pathname.lastIndexOf("/") + 1
-              );
-            return new URL(segmentPath, originBase).href;
-          })();
+        : new URL(segmentPath, getOriginBase(stream.originUrl)).href,
+      query
+    );
+
+    // Absolute URLs are taken from the request path: check them like wrap
+    // URLs before going any further
+    if (!isUpstreamAllowed(segmentUrl)) {
+      logger.warn("upstream.blocked", { streamId: id, path: segmentPath });
+      return res.status(403).json({ error: "Upstream not allowed" });
+    }
 
     // Limit range requests for segments to prevent excessive buffering
     const MAX_RANGE_BYTES = 10 * 1024 * 1024; // 10 MB
@@ -341,16 +876,22 @@ app.get("/stream/:id/*", deferredPaymentMiddleware, async (req, res) => {
           const maxEnd = start + MAX_RANGE_BYTES - 1;
           if (requestedEnd > maxEnd) {
             limitedRangeHeader = `bytes=${start}-${maxEnd}`;
-            console.log(
-              `[SEGMENT-RANGE-LIMIT] ${id}/${segmentPath.substring(0, 30)}: requested ${start}-${requestedEnd}, limited to ${start}-${maxEnd}`
-            );
+            logger.debug("range.limited", {
+              streamId: id,
+              path: segmentPath,
+              requested: rangeHeader,
+              limited: limitedRangeHeader,
+            });
           }
         } else {
           const maxEnd = start + MAX_RANGE_BYTES - 1;
           limitedRangeHeader = `bytes=${start}-${maxEnd}`;
-          console.log(
-            `[SEGMENT-RANGE-LIMIT] ${id}/${segmentPath.substring(0, 30)}: requested ${start}- (open-ended), limited to ${start}-${maxEnd}`
-          );
+          logger.debug("range.limited", {
+            streamId: id,
+            path: segmentPath,
+            requested: rangeHeader,
+            limited: limitedRangeHeader,
+          });
         }
       }
     }
@@ -361,8 +902,49 @@ app.get("/stream/:id/*", deferredPaymentMiddleware, async (req, res) => {
       upstreamHeaders.range = limitedRangeHeader;
     }
 
-    // Fetch segment from origin with potentially limited range
-    const upstreamRes = await fetchUpstream(segmentUrl, upstreamHeaders);
+    // Fetch segment from origin (or the cache) with potentially limited
+    // range (blocking playlist reloads wait for the origin up to the LL-HLS
+    // timeout, concurrent ones share a single upstream request)
+    const startedAt = Date.now();
+    const upstreamRes = await upstreamCache.fetch(segmentUrl, upstreamHeaders, {
+      timeoutMs: new URLSearchParams(query).has("_HLS_msn")
+        ? config.hlsBlockingReloadTimeoutMs
+        : undefined,
+      signal,
+    });
+
+    // Variant/media playlists of a master playlist and relocated MPDs
+    // need their URIs rewritten too, relative to their own URL
+    if (
+      upstreamRes.ok &&
+      getManifestKind(segmentUrl, upstreamRes.headers.get("content-type")) ===
+        stream.kind
+    ) {
+      const body = await upstreamRes.text();
+      const rewritten = getManifestRewriter(stream.kind).rewrite(body, {
+        streamId: id,
+        baseUrl: config.baseUrl,
+        originUrl: stream.originUrl,
+        manifestUrl: segmentUrl,
+        playbackToken: getPlaybackTokenParam(req),
+      });
+
+      res.setHeader("Content-Type", getContentType(stream.kind));
+      res.setHeader("Access-Control-Allow-Origin", "*");
+      res.setHeader("Cache-Control", "no-cache, no-store, must-revalidate");
+      res.send(rewritten);
+      logger.info("upstream.fetched", {
+        streamId: id,
+        path: segmentPath,
+        kind: stream.kind,
+        status: upstreamRes.status,
+        cache: upstreamRes.headers.get("x-cache") ?? undefined,
+        bytes: body.length,
+        rewrittenBytes: rewritten.length,
+        latencyMs: Date.now() - startedAt,
+      });
+      return;
+    }
 
     // Stream the segment
     res.status(upstreamRes.status);
@@ -380,6 +962,7 @@ app.get("/stream/:id/*", deferredPaymentMiddleware, async (req, res) => {
       "cache-control",
       "etag",
       "last-modified",
+      "x-cache",
     ].forEach((header) => {
       const value = upstreamRes.headers.get(header);
       if (value) res.setHeader(header, value);
@@ -390,32 +973,56 @@ app.get("/stream/:id/*", deferredPaymentMiddleware, async (req, res) => {
       return;
     }
 
-    const reader = upstreamRes.body.getReader();
-    const streamSegment = async (totalBytes: number = 0): Promise<number> => {
-      try {
-        const { done, value } = await reader.read();
-        if (done) {
-          res.end();
-          return totalBytes;
-        }
-        res.write(value);
-        return streamSegment(totalBytes + value.length);
-      } catch (err) {
-        console.error(`[ERROR] Segment stream error for ${id}:`, err);
-        res.end();
-        return totalBytes;
-      }
-    };
-
-    const bytesTransferred = await streamSegment();
-    console.log(
-      `[SEGMENT] ${id}/${segmentPath.substring(
-        0,
-        50
-      )}... : ${bytesTransferred} bytes`
+    const latencyMs = Date.now() - startedAt;
+    const { bytes, complete, error } = await pipeUpstreamBody(
+      upstreamRes.body,
+      res
     );
+    res.locals.delivery = { bytes, complete } satisfies DeliveryReport;
+    if (!complete) {
+      logger.error("upstream.interrupted", {
+        streamId: id,
+        path: segmentPath,
+        bytes,
+        error,
+      });
+      return;
+    }
+    logger.info("upstream.fetched", {
+      streamId: id,
+      path: segmentPath,
+      status: upstreamRes.status,
+      cache: upstreamRes.headers.get("x-cache") ?? undefined,
+      bytes,
+      latencyMs,
+      durationMs: Date.now() - startedAt,
+    });
   } catch (err) {
-    console.error(`[ERROR] Segment proxy error for ${id}/${segmentPath}:`, err);
+    if (signal.aborted) {
+      logger.info("upstream.aborted", { streamId: id, path: segmentPath });
+      return;
+    }
+    if (isUpstreamTimeout(err)) {
+      logger.error("upstream.timeout", {
+        streamId: id,
+        path: segmentPath,
+        error: err,
+      });
+      return res.status(504).json({ error: "Upstream timeout" });
+    }
+    if (isUpstreamBlocked(err)) {
+      logger.warn("upstream.blocked", {
+        streamId: id,
+        path: segmentPath,
+        error: err,
+      });
+      return res.status(403).json({ error: "Upstream not allowed" });
+    }
+    logger.error("upstream.failed", {
+      streamId: id,
+      path: segmentPath,
+      error: err,
+    });
     res.status(500).json({ error: "Segment proxy error" });
   }
 });
@@ -0,0 +1,270 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { mkdtempSync, readdirSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import {
+  MemoryCacheTier,
+  UpstreamCache,
+  type CacheEntry,
+  type UpstreamCacheOptions,
+} from "./upstream-cache.js";
+
+const SEGMENT = "https://origin.example.com/hls/segment0.ts";
+const PLAYLIST = "https://origin.example.com/hls/live.m3u8";
+
+function createCache(
+  respond: (url: string, headers: Record<string, string>) => Response,
+  options: Partial<UpstreamCacheOptions> = {}
+) {
+  let now = 1_700_000_000_000;
+  const fetch = vi.fn(
+    async (
+      url: string,
+      headers?: Record<string, string>,
+      _options?: { signal?: AbortSignal }
+    ) => respond(url, headers ?? {})
+  );
+  const cache = new UpstreamCache({
+    maxBytes: 1024 * 1024,
+    maxEntryBytes: 64 * 1024,
+    manifestTtlSeconds: 1,
+    segmentTtlSeconds: 3600,
+    fetch,
+    now: () => now,
+    ...options,
+  });
+  return { cache, fetch, advance: (ms: number) => (now += ms) };
+}
+
+const entry = (size: number): CacheEntry => ({
+  headers: {},
+  body: Buffer.alloc(size),
+  expiresAt: Infinity,
+  ttlMs: 0,
+});
+
+describe("MemoryCacheTier", () => {
+  it("should evict least recently used entries beyond its budget", () => {
+    const evicted: string[] = [];
+    const tier = new MemoryCacheTier(2 * (1000 + 512), (key) =>
+      evicted.push(key)
+    );
+
+    tier.set("a", entry(1000));
+    tier.set("b", entry(1000));
+    tier.get("a");
+    tier.set("c", entry(1000));
+
+    expect(evicted).toEqual(["b"]);
+    expect(tier.get("a")).toBeDefined();
+    expect(tier.get("b")).toBeUndefined();
+    expect(tier.size).toBe(2 * (1000 + 512));
+  });
+});
+
+describe("UpstreamCache", () => {
+  const tempDirs: string[] = [];
+
+  afterEach(() => {
+    tempDirs.forEach((dir) => rmSync(dir, { recursive: true, force: true }));
+    tempDirs.length = 0;
+  });
+
+  it("should serve segments from the cache until they expire", async () => {
+    const { cache, fetch, advance } = createCache(
+      () =>
+        new Response("segment", { headers: { "content-type": "video/mp2t" } })
+    );
+
+    const first = await cache.fetch(SEGMENT);
+    const second = await cache.fetch(SEGMENT);
+
+    expect(first.headers.get("x-cache")).toBe("MISS");
+    expect(second.headers.get("x-cache")).toBe("HIT");
+    expect(await second.text()).toBe("segment");
+    expect(second.headers.get("content-type")).toBe("video/mp2t");
+    expect(fetch).toHaveBeenCalledTimes(1);
+
+    advance(3601 * 1000);
+    await cache.fetch(SEGMENT);
+    expect(fetch).toHaveBeenCalledTimes(2);
+  });
+
+  it("should give playlists a short TTL unless Cache-Control says otherwise", async () => {
+    const { cache, fetch, advance } = createCache((url) =>
+      url === PLAYLIST
+        ? new Response("#EXTM3U")
+        : new Response("#EXTM3U", {
+            headers: { "cache-control": "public, s-maxage=30, max-age=5" },
+          })
+    );
+    const vod = "https://origin.example.com/hls/vod.m3u8";
+
+    await cache.fetch(PLAYLIST);
+    await cache.fetch(vod);
+    advance(2000);
+    await cache.fetch(PLAYLIST);
+    await cache.fetch(vod);
+
+    expect(fetch.mock.calls.map(([url]) => url)).toEqual([
+      PLAYLIST,
+      vod,
+      PLAYLIST,
+    ]);
+  });
+
+  it("should not store no-store, private or non-200 responses", async () => {
+    const { cache, fetch } = createCache((url) =>
+      url.endsWith("a.ts")
+        ? new Response("a", { headers: { "cache-control": "no-store" } })
+        : url.endsWith("b.ts")
+          ? new Response("b", { headers: { "cache-control": "private" } })
+          : new Response("missing", { status: 404 })
+    );
+
+    for (const name of ["a.ts", "b.ts", "c.ts"]) {
+      const url = `https://origin.example.com/${name}`;
+      await cache.fetch(url);
+      const response = await cache.fetch(url);
+      expect(response.headers.get("x-cache")).toBeNull();
+    }
+    expect(fetch).toHaveBeenCalledTimes(6);
+  });
+
+  it("should revalidate stale entries with their ETag", async () => {
+    const { cache, fetch, advance } = createCache((_url, headers) =>
+      headers["if-none-match"] === '"v1"'
+        ? new Response(null, { status: 304 })
+        : new Response("#EXTM3U", { headers: { etag: '"v1"' } })
+    );
+
+    await cache.fetch(PLAYLIST);
+    advance(1500);
+    const revalidated = await cache.fetch(PLAYLIST);
+
+    expect(revalidated.headers.get("x-cache")).toBe("REVALIDATED");
+    expect(await revalidated.text()).toBe("#EXTM3U");
+    expect(fetch.mock.calls[1][1]).toMatchObject({ "if-none-match": '"v1"' });
+    // Fresh again for the manifest TTL
+    expect((await cache.fetch(PLAYLIST)).headers.get("x-cache")).toBe("HIT");
+  });
+
+  it("should coalesce concurrent requests into one upstream fetch", async () => {
+    let release!: () => void;
+    const gate = new Promise<void>((resolve) => (release = resolve));
+    const { cache, fetch } = createCache(() => new Response("#EXTM3U"));
+    fetch.mockImplementationOnce(async () => {
+      await gate;
+      return new Response("#EXTM3U\n#EXT-X-MEDIA-SEQUENCE:7");
+    });
+
+    const viewers = Array.from({ length: 5 }, () => cache.fetch(PLAYLIST));
+    release();
+    const bodies = await Promise.all(
+      (await Promise.all(viewers)).map((response) => response.text())
+    );
+
+    expect(fetch).toHaveBeenCalledTimes(1);
+    expect(new Set(bodies)).toEqual(
+      new Set(["#EXTM3U\n#EXT-X-MEDIA-SEQUENCE:7"])
+    );
+  });
+
+  it("should abort a shared fetch once every waiting request went away", async () => {
+    const { cache, fetch } = createCache(() => new Response("#EXTM3U"));
+    let upstreamSignal: AbortSignal | undefined;
+    fetch.mockImplementationOnce(async (_url, _headers, options) => {
+      upstreamSignal = options?.signal;
+      return new Promise<Response>((_resolve, reject) =>
+        upstreamSignal?.addEventListener("abort", () =>
+          reject(upstreamSignal?.reason)
+        )
+      );
+    });
+
+    const viewers = [new AbortController(), new AbortController()];
+    const responses = viewers.map(({ signal }) =>
+      cache.fetch(PLAYLIST, {}, { signal }).catch((err: unknown) => err)
+    );
+    await vi.waitFor(() => expect(upstreamSignal).toBeDefined());
+
+    viewers[0].abort();
+    expect(upstreamSignal!.aborted).toBe(false);
+    viewers[1].abort();
+    expect(upstreamSignal!.aborted).toBe(true);
+    await Promise.all(responses);
+  });
+
+  it("should cancel an uncacheable response once the request that fetched it went away", async () => {
+    const { cache, fetch } = createCache(() => new Response("#EXTM3U"));
+    const uncacheable = (onCancel: () => void) =>
+      new Response(new ReadableStream({ pull() {}, cancel: onCancel }), {
+        headers: { "cache-control": "no-store" },
+      });
+    let upstreamSignal: AbortSignal | undefined;
+    let respond: (() => void) | undefined;
+    let cancelled = false;
+    fetch.mockImplementationOnce(async (_url, _headers, options) => {
+      upstreamSignal = options?.signal;
+      await new Promise<void>((resolve) => (respond = resolve));
+      return uncacheable(() => (cancelled = true));
+    });
+
+    // Another request still waits for the fill when the first one leaves
+    const viewers = [new AbortController(), new AbortController()];
+    const responses = viewers.map(({ signal }) =>
+      cache.fetch(PLAYLIST, {}, { signal }).catch((err: unknown) => err)
+    );
+    await vi.waitFor(() => expect(respond).toBeDefined());
+    viewers[0].abort();
+    respond!();
+
+    expect(await responses[0]).toBeInstanceOf(DOMException);
+    expect(cancelled).toBe(true);
+    expect(await ((await responses[1]) as Response).text()).toBe("#EXTM3U");
+    expect(upstreamSignal!.aborted).toBe(false);
+
+    // A request leaving while it reads the body aborts the upstream fetch
+    fetch.mockImplementationOnce(async (_url, _headers, options) => {
+      upstreamSignal = options?.signal;
+      return uncacheable(() => {});
+    });
+    const viewer = new AbortController();
+    await cache.fetch(PLAYLIST, {}, { signal: viewer.signal });
+    viewer.abort();
+    expect(upstreamSignal!.aborted).toBe(true);
+  });
+
+  it("should pass range requests and oversized bodies through", async () => {
+    const { cache, fetch } = createCache(() => new Response("x".repeat(100)), {
+      maxEntryBytes: 10,
+    });
+
+    const ranged = await cache.fetch(SEGMENT, { range: "bytes=0-9" });
+    const large = await cache.fetch(SEGMENT);
+
+    expect(ranged.headers.get("x-cache")).toBeNull();
+    expect(await large.text()).toBe("x".repeat(100));
+    await cache.fetch(SEGMENT);
+    expect(fetch).toHaveBeenCalledTimes(3);
+  });
+
+  it("should move evicted entries to the disk tier", async () => {
+    const diskDir = mkdtempSync(path.join(tmpdir(), "upstream-cache-"));
+    tempDirs.push(diskDir);
+    const { cache, fetch } = createCache(
+      (url) => new Response(`body of ${url}`),
+      { maxBytes: 600, diskDir }
+    );
+    const other = "https://origin.example.com/hls/segment1.ts";
+
+    await cache.fetch(SEGMENT);
+    await cache.fetch(other);
+    const fromDisk = await cache.fetch(SEGMENT);
+    expect(fromDisk.headers.get("x-cache")).toBe("HIT");
+    expect(await fromDisk.text()).toBe(`body of ${SEGMENT}`);
+    expect(fetch).toHaveBeenCalledTimes(2);
+    // Promoting it evicted the other segment to disk
+    await vi.waitFor(() => expect(readdirSync(diskDir)).toHaveLength(2));
+  });
+});
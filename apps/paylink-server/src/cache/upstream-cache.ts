@@ -0,0 +1,472 @@
+import { randomUUID } from "node:crypto";
+import { mkdirSync, readdirSync, rmSync } from "node:fs";
+import { readFile, rm, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { config } from "../config.js";
+import { logger } from "../logger.js";
+import { fetchUpstream, getManifestKind } from "../utils.js";
+
+// Response headers kept with a cached body
+const CACHED_HEADERS = [
+  "content-type",
+  "content-length",
+  "cache-control",
+  "etag",
+  "last-modified",
+  "accept-ranges",
+];
+
+// Approximate bookkeeping size of an entry besides its body
+const ENTRY_OVERHEAD_BYTES = 512;
+
+// Disk tier file names
+const CACHE_FILE = /^[0-9a-f-]{36}\.bin$/;
+
+/**
+ * Cached upstream response (200 only)
+ */
+export interface CacheEntry {
+  headers: Record<string, string>;
+  body: Buffer;
+  expiresAt: number; // Unix ms, revalidated or refetched after
+  ttlMs: number; // Freshness granted when stored (reused after a 304)
+}
+
+// How a response was served, exposed as X-Cache
+export type CacheStatus = "HIT" | "MISS" | "REVALIDATED";
+
+export interface UpstreamCacheOptions {
+  maxBytes: number; // Memory budget, 0 disables caching
+  maxEntryBytes: number; // Larger responses are passed through
+  diskDir?: string; // Disk tier for entries evicted from memory
+  diskMaxBytes?: number;
+  manifestTtlSeconds: number; // Freshness of playlists/MPDs without max-age
+  segmentTtlSeconds: number; // Freshness of other responses without max-age
+  fetch?: typeof fetchUpstream;
+  now?: () => number;
+}
+
+type FetchOptions = Parameters<typeof fetchUpstream>[2];
+
+const entrySize = (entry: CacheEntry) =>
+  entry.body.length + ENTRY_OVERHEAD_BYTES;
+
+/**
+ * In-memory LRU bounded by the total size of its entries; evicted entries
+ * are handed to onEvict (the disk tier)
+ */
+export class MemoryCacheTier {
+  private readonly entries = new Map<string, CacheEntry>();
+  private bytes = 0;
+
+  constructor(
+    private readonly maxBytes: number,
+    private readonly onEvict?: (key: string, entry: CacheEntry) => void
+  ) {}
+
+  get size(): number {
+    return this.bytes;
+  }
+
+  get(key: string): CacheEntry | undefined {
+    const entry = this.entries.get(key);
+    if (entry) {
+      // Most recently used entries are iterated last
+      this.entries.delete(key);
+      this.entries.set(key, entry);
+    }
+    return entry;
+  }
+
+  set(key: string, entry: CacheEntry): void {
+    this.delete(key);
+    this.entries.set(key, entry);
+    this.bytes += entrySize(entry);
+
+    for (const [oldest, evicted] of this.entries) {
+      if (this.bytes <= this.maxBytes) break;
+      this.delete(oldest);
+      this.onEvict?.(oldest, evicted);
+    }
+  }
+
+  delete(key: string): void {
+    const entry = this.entries.get(key);
+    if (!entry) return;
+    this.entries.delete(key);
+    this.bytes -= entrySize(entry);
+  }
+}
+
+// Entry of the disk tier index
+interface DiskEntry {
+  meta: Omit<CacheEntry, "body">;
+  file: string;
+  size: number;
+  written: Promise<void>;
+}
+
+/**
+ * On-disk LRU tier, one file per entry with the index kept in memory
+ * (files left by a previous process are removed on startup)
+ *
+ * Entries are indexed when their write starts, reads wait for it to finish.
+ */
+export class DiskCacheTier {
+  private readonly index = new Map<string, DiskEntry>();
+  private bytes = 0;
+
+  constructor(
+    private readonly dir: string,
+    private readonly maxBytes: number
+  ) {
+    mkdirSync(dir, { recursive: true });
+    for (const file of readdirSync(dir)) {
+      if (CACHE_FILE.test(file)) {
+        rmSync(path.join(dir, file), { force: true });
+      }
+    }
+  }
+
+  async get(key: string): Promise<CacheEntry | undefined> {
+    const stored = this.index.get(key);
+    if (!stored) return undefined;
+
+    // Most recently used entries are iterated last
+    this.index.delete(key);
+    this.index.set(key, stored);
+    try {
+      await stored.written;
+      return { ...stored.meta, body: await readFile(stored.file) };
+    } catch (err) {
+      logger.error("cache.disk_read_failed", { key, error: err });
+      this.delete(key);
+      return undefined;
+    }
+  }
+
+  set(key: string, entry: CacheEntry): Promise<void> {
+    this.delete(key);
+    const { body, ...meta } = entry;
+    const file = path.join(this.dir, `${randomUUID()}.bin`);
+    const written = writeFile(file, body);
+    this.index.set(key, { meta, file, size: body.length, written });
+    this.bytes += body.length;
+
+    for (const oldest of this.index.keys()) {
+      if (this.bytes <= this.maxBytes) break;
+      this.delete(oldest);
+    }
+    return written;
+  }
+
+  delete(key: string): void {
+    const stored = this.index.get(key);
+    if (!stored) return;
+    this.index.delete(key);
+    this.bytes -= stored.size;
+    // Once written, so a pending write doesn't recreate the file
+    stored.written
+      .finally(() => rm(stored.file, { force: true }))
+      .catch(() => {});
+  }
+}
+
+/**
+ * Freshness in ms granted by a response, undefined if it must not be
+ * stored (no-store, private, or no-cache without a validator)
+ */
+function getFreshness(
+  response: Response,
+  url: string,
+  options: UpstreamCacheOptions
+): number | undefined {
+  const cacheControl = (response.headers.get("cache-control") ?? "")
+    .toLowerCase()
+    .split(",")
+    .map((directive) => directive.trim());
+  if (cacheControl.includes("no-store") || cacheControl.includes("private")) {
+    return undefined;
+  }
+  if (cacheControl.includes("no-cache")) {
+    const validator =
+      response.headers.has("etag") || response.headers.has("last-modified");
+    return validator ? 0 : undefined;
+  }
+
+  // s-maxage is meant for shared caches like this one
+  for (const name of ["s-maxage", "max-age"]) {
+    const directive = cacheControl.find((d) => d.startsWith(`${name}=`));
+    const seconds = directive && parseInt(directive.split("=")[1], 10);
+    if (typeof seconds === "number" && !isNaN(seconds)) {
+      return seconds * 1000;
+    }
+  }
+
+  // Live playlists change every segment, segments never do
+  const manifest = getManifestKind(url, response.headers.get("content-type"));
+  return (
+    (manifest ? options.manifestTtlSeconds : options.segmentTtlSeconds) * 1000
+  );
+}
+
+/**
+ * Read a response body up to `limit` bytes: the whole body, or a stream
+ * replaying what was read followed by the rest when it's larger
+ */
+async function readBounded(
+  body: ReadableStream<Uint8Array>,
+  limit: number
+): Promise<Buffer | ReadableStream<Uint8Array>> {
+  const reader = body.getReader();
+  const chunks: Uint8Array[] = [];
+  let total = 0;
+
+  while (total <= limit) {
+    const { done, value } = await reader.read();
+    if (done) return Buffer.concat(chunks);
+    chunks.push(value);
+    total += value.length;
+  }
+
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      chunks.forEach((chunk) => controller.enqueue(chunk));
+    },
+    async pull(controller) {
+      const { done, value } = await reader.read();
+      if (done) controller.close();
+      else controller.enqueue(value);
+    },
+    cancel: (reason) => reader.cancel(reason),
+  });
+}
+
+function toResponse(entry: CacheEntry, status: CacheStatus): Response {
+  return new Response(entry.body, {
+    status: 200,
+    headers: { ...entry.headers, "x-cache": status },
+  });
+}
+
+// Result of an upstream fetch: a cached entry every waiter can serve, or a
+// response only the request that fetched it can consume
+interface FillResult {
+  entry?: CacheEntry;
+  status?: CacheStatus;
+  response?: Response;
+}
+
+// Upstream fetch shared by the requests waiting for it, aborted once all
+// of them went away
+interface Fill {
+  result: Promise<FillResult>;
+  controller: AbortController;
+  waiters: number;
+}
+
+/**
+ * Origin-side cache in front of fetchUpstream for segments and manifests,
+ * keyed by the resolved upstream URL
+ *
+ * - Memory LRU with a size budget, evicting to an optional disk tier
+ * - Freshness from Cache-Control (s-maxage, max-age), otherwise a short
+ *   TTL for playlists/MPDs and a long one for segments; stale entries with
+ *   an ETag or Last-Modified are revalidated
+ * - Concurrent requests for the same URL share one upstream fetch, so
+ *   viewers of a live edge cost the origin one request per update; it is
+ *   aborted when every one of them disconnected, and an uncacheable
+ *   response (only served to the request that fetched it) once that one
+ *   disconnected
+ *
+ * Range requests and responses other than 200 bypass the cache. Client
+ * conditional headers aren't forwarded when going through the cache.
+ */
+export class UpstreamCache {
+  private readonly memory: MemoryCacheTier;
+  private readonly disk?: DiskCacheTier;
+  private readonly inflight = new Map<string, Fill>();
+  private readonly fetchUpstream: typeof fetchUpstream;
+  private readonly now: () => number;
+
+  constructor(private readonly options: UpstreamCacheOptions) {
+    this.fetchUpstream = options.fetch ?? fetchUpstream;
+    this.now = options.now ?? Date.now;
+    if (options.diskDir) {
+      this.disk = new DiskCacheTier(
+        options.diskDir,
+        options.diskMaxBytes ?? Infinity
+      );
+    }
+    this.memory = new MemoryCacheTier(options.maxBytes, (key, entry) =>
+      this.disk?.set(key, entry).catch((err) => {
+        logger.error("cache.disk_write_failed", { key, error: err });
+      })
+    );
+  }
+
+  async fetch(
+    url: string,
+    headers: Record<string, string> = {},
+    options: FetchOptions = {}
+  ): Promise<Response> {
+    if (this.options.maxBytes <= 0 || headers["range"]) {
+      return this.fetchUpstream(url, headers, options);
+    }
+
+    const cached = await this.get(url);
+    if (cached && cached.expiresAt > this.now()) {
+      return toResponse(cached, "HIT");
+    }
+
+    const pending = this.inflight.get(url);
+    if (pending) {
+      const { entry } = await this.join(pending, options.signal).catch(
+        (): FillResult => ({})
+      );
+      return entry
+        ? toResponse(entry, "HIT")
+        : this.fetchUpstream(url, headers, options);
+    }
+
+    // Shared with later requests: aborted only once every waiting client
+    // went away
+    const controller = new AbortController();
+    const fill: Fill = {
+      result: this.fill(
+        url,
+        headers,
+        { ...options, signal: controller.signal },
+        cached
+      ),
+      controller,
+      waiters: 0,
+    };
+    this.inflight.set(url, fill);
+    try {
+      const result = await this.join(fill, options.signal);
+      if (result.entry) {
+        return toResponse(result.entry, result.status!);
+      }
+
+      // Only this request reads an uncacheable response: its upstream body
+      // is cancelled once the request went away, even while other requests
+      // still wait for the fill
+      const { signal } = options;
+      if (signal?.aborted) {
+        await result.response!.body?.cancel(signal.reason).catch(() => {});
+        throw signal.reason;
+      }
+      signal?.addEventListener("abort", () => controller.abort(signal.reason), {
+        once: true,
+      });
+      return result.response!;
+    } finally {
+      this.inflight.delete(url);
+    }
+  }
+
+  /**
+   * Wait for a shared fill, which is aborted when the signal of its last
+   * waiter aborts before it completes
+   */
+  private async join(fill: Fill, signal?: AbortSignal): Promise<FillResult> {
+    fill.waiters++;
+    const leave = () => {
+      if (--fill.waiters === 0) {
+        fill.controller.abort(signal?.reason);
+      }
+    };
+    if (signal?.aborted) {
+      leave();
+    } else {
+      signal?.addEventListener("abort", leave, { once: true });
+    }
+    try {
+      return await fill.result;
+    } finally {
+      signal?.removeEventListener("abort", leave);
+    }
+  }
+
+  private async get(url: string): Promise<CacheEntry | undefined> {
+    const entry = this.memory.get(url);
+    if (entry || !this.disk) return entry;
+
+    const stored = await this.disk.get(url);
+    if (stored) this.memory.set(url, stored);
+    return stored;
+  }
+
+  private async fill(
+    url: string,
+    headers: Record<string, string>,
+    options: FetchOptions,
+    stale: CacheEntry | undefined
+  ): Promise<FillResult> {
+    const upstreamHeaders: Record<string, string> = {
+      ...(headers["user-agent"] && { "user-agent": headers["user-agent"] }),
+      ...(headers["accept"] && { accept: headers["accept"] }),
+      ...(stale?.headers["etag"] && { "if-none-match": stale.headers["etag"] }),
+      ...(stale?.headers["last-modified"] && {
+        "if-modified-since": stale.headers["last-modified"],
+      }),
+    };
+    const response = await this.fetchUpstream(url, upstreamHeaders, options);
+
+    if (response.status === 304 && stale) {
+      await response.body?.cancel();
+      const ttlMs = getFreshness(response, url, this.options) ?? stale.ttlMs;
+      const entry = { ...stale, ttlMs, expiresAt: this.now() + ttlMs };
+      this.memory.set(url, entry);
+      return { entry, status: "REVALIDATED" };
+    }
+
+    const ttlMs = getFreshness(response, url, this.options);
+    const length = Number(response.headers.get("content-length"));
+    if (
+      response.status !== 200 ||
+      ttlMs === undefined ||
+      !response.body ||
+      length > this.options.maxEntryBytes
+    ) {
+      return { response };
+    }
+
+    const body = await readBounded(response.body, this.options.maxEntryBytes);
+    if (!Buffer.isBuffer(body)) {
+      return {
+        response: new Response(body, {
+          status: response.status,
+          headers: response.headers,
+        }),
+      };
+    }
+
+    const cachedHeaders: Record<string, string> = {};
+    for (const name of CACHED_HEADERS) {
+      const value = response.headers.get(name);
+      if (value) cachedHeaders[name] = value;
+    }
+    const entry: CacheEntry = {
+      headers: cachedHeaders,
+      body,
+      expiresAt: this.now() + ttlMs,
+      ttlMs,
+    };
+    this.memory.set(url, entry);
+    return { entry, status: "MISS" };
+  }
+}
+
+// Factory for the configured cache (CACHE_MAX_BYTES=0 disables it)
+export function createUpstreamCache(): UpstreamCache {
+  return new UpstreamCache({
+    maxBytes: config.cacheMaxBytes,
+    maxEntryBytes: config.cacheMaxEntryBytes,
+    diskDir: config.cacheDir,
+    diskMaxBytes: config.cacheDiskMaxBytes,
+    manifestTtlSeconds: config.cacheManifestTtlSeconds,
+    segmentTtlSeconds: config.cacheSegmentTtlSeconds,
+  });
+}
@@ -1,3 +1,5 @@
+import { assertUpstreamUrl } from "./upstream-guard.js";
+
 export const config = {
   port: process.env.PORT || 3000,
   baseUrl: process.env.BASE_URL || "http://localhost:3000",
@@ -6,10 +8,26 @@ export const config = {
     "0x0000000000000000000000000000000000000000",
   network: (process.env.X402_NETWORK || "base-sepolia") as "base-sepolia",
   streamPriceUSDC: process.env.STREAM_PRICE_USDC || "0.01",
+  // Minimum level of JSON log entries: "debug", "info", "warn" or "error"
+  logLevel: process.env.LOG_LEVEL || "info",
 
-  // Legacy JWT settings (still used by wrap API)
-  jwtSecret: process.env.JWT_SECRET || "your-secret-key-change-in-production",
+  // Receipt JWT settings
   jwtTTL: parseInt(process.env.JWT_TTL_SECONDS || "900", 10),
+  // JSON array of private JWKs (ES256 or EdDSA, each with kid and optional
+  // activeFrom unix timestamp); unset = keys generated in memory
+  jwtSigningKeys: process.env.JWT_SIGNING_KEYS,
+  // Algorithm and rotation interval in seconds for generated keys
+  jwtAlgorithm: (process.env.JWT_ALG || "ES256") as "ES256" | "EdDSA",
+  jwtRotationSeconds: parseInt(process.env.JWT_ROTATION_SECONDS || "86400", 10),
+  // Legacy HS256 secret, only used to verify tokens issued before rotation
+  jwtSecret: process.env.JWT_SECRET,
+  // Only accept receipts issued for the route's current PaymentRequirements
+  // (a price or payTo change then requires a new payment)
+  strictReceipts: process.env.STRICT_RECEIPTS === "true",
+  // When exact-scheme payments settle: "before" the response (headers
+  // guaranteed, the buyer keeps the receipt if the origin fails) or "after"
+  // the handler produced a success response, buffered until settled
+  exactSettlement: process.env.EXACT_SETTLEMENT || "before",
 
   // Deferred payment scheme settings (EIP-712 signature verification only)
   // Asset address (USDC on base-sepolia)
@@ -20,38 +38,110 @@ export const config = {
   stepAmount: process.env.STEP_AMOUNT || "10000",
   // Voucher renewal interval in seconds
   voucherTimeWindow: parseInt(process.env.VOUCHER_TIME_WINDOW || "60", 10),
-};
+  // Max voucher lifetime in seconds (expiry - timestamp of the first voucher)
+  voucherExpirySeconds: parseInt(
+    process.env.VOUCHER_EXPIRY_SECONDS || "3600",
+    10
+  ),
+  // Suggested spending cap for new vouchers in atomic units (unset = no cap)
+  voucherMaxValue: process.env.VOUCHER_MAX_VALUE,
+  // Issue playback URLs for external players (VLC, ffmpeg, TV apps), paid
+  // by a prepaid allowance voucher instead of per-request X-PAYMENT headers
+  externalPlayback: process.env.EXTERNAL_PLAYBACK === "true",
 
-// Private IP ranges to block (SSRF protection)
-const PRIVATE_IP_PATTERNS = [
-  /^127\./, // 127.0.0.0/8 - localhost
-  /^10\./, // 10.0.0.0/8 - private
-  /^172\.(1[6-9]|2[0-9]|3[01])\./, // 172.16.0.0/12 - private
-  /^192\.168\./, // 192.168.0.0/16 - private
-  /^169\.254\./, // 169.254.0.0/16 - link-local (AWS metadata)
-  /^0\./, // 0.0.0.0/8
-  /^\[::\]/, // IPv6 localhost
-  /^\[::1\]/, // IPv6 localhost
-  /^\[fe80:/, // IPv6 link-local
-  /^\[fc00:/, // IPv6 unique local
-];
+  // Max bytes served per range request of a progressive file, also the
+  // unit metered by one voucher aggregation (10 MB = ~16s of 5 Mbps video)
+  progressiveRangeBytes: parseInt(
+    process.env.PROGRESSIVE_RANGE_BYTES || String(10 * 1024 * 1024),
+    10
+  ),
 
-export function isUpstreamAllowed(url: string): boolean {
-  try {
-    const parsed = new URL(url);
-    if (parsed.protocol !== "http:" && parsed.protocol !== "https:") {
-      return false;
-    }
+  // Upstream connect timeout, and idle timeout waiting for response headers
+  // or between body chunks, in milliseconds (504 when exceeded)
+  upstreamConnectTimeoutMs: parseInt(
+    process.env.UPSTREAM_CONNECT_TIMEOUT_MS || "5000",
+    10
+  ),
+  upstreamIdleTimeoutMs: parseInt(
+    process.env.UPSTREAM_IDLE_TIMEOUT_MS || "15000",
+    10
+  ),
 
-    const hostname = parsed.hostname;
-    if (hostname === "localhost" || hostname === "0.0.0.0") {
-      return false;
-    }
+  // Upstream timeout in milliseconds for LL-HLS blocking playlist reloads
+  // (_HLS_msn), which the origin holds until the requested part exists
+  hlsBlockingReloadTimeoutMs: parseInt(
+    process.env.HLS_BLOCKING_RELOAD_TIMEOUT_MS || "30000",
+    10
+  ),
 
-    if (PRIVATE_IP_PATTERNS.some((pattern) => pattern.test(hostname))) {
-      return false;
-    }
+  // Upstream cache for segments and manifests (keyed by upstream URL):
+  // memory budget in bytes, 0 disables caching
+  cacheMaxBytes: parseInt(
+    process.env.CACHE_MAX_BYTES || String(64 * 1024 * 1024),
+    10
+  ),
+  // Larger responses are streamed through without being cached
+  cacheMaxEntryBytes: parseInt(
+    process.env.CACHE_MAX_ENTRY_BYTES || String(8 * 1024 * 1024),
+    10
+  ),
+  // Disk tier for entries evicted from memory (unset = memory only)
+  cacheDir: process.env.CACHE_DIR,
+  cacheDiskMaxBytes: parseInt(
+    process.env.CACHE_DISK_MAX_BYTES || String(1024 * 1024 * 1024),
+    10
+  ),
+  // Freshness when the origin sends no max-age: playlists/MPDs change at
+  // the live edge, segments are immutable
+  cacheManifestTtlSeconds: parseInt(
+    process.env.CACHE_MANIFEST_TTL_SECONDS || "1",
+    10
+  ),
+  cacheSegmentTtlSeconds: parseInt(
+    process.env.CACHE_SEGMENT_TTL_SECONDS || "86400",
+    10
+  ),
 
+  // Wrapped stream registry: "memory", "sqlite" or "dynamodb"
+  wrappedStore: process.env.WRAPPED_STORE || "memory",
+  // SQLite database file (shared by all SQLite-backed stores)
+  sqlitePath: process.env.SQLITE_PATH || "./data/paylink.db",
+  // DynamoDB table (partition key "id") and optional endpoint for DynamoDB Local
+  dynamoTableName: process.env.DYNAMODB_TABLE || "x402-wrapped-streams",
+  dynamoEndpoint: process.env.DYNAMODB_ENDPOINT,
+
+  // Voucher state store: "memory", "sqlite" or "redis"
+  voucherStore: process.env.VOUCHER_STORE || "memory",
+  redisUrl: process.env.REDIS_URL || "redis://localhost:6379",
+
+  // Receipt revocation list: "memory", "sqlite" or "redis"
+  revocationStore: process.env.REVOCATION_STORE || "memory",
+  // Per-request delivery ledger of deferred payments: "memory", "sqlite"
+  // or "redis"
+  deliveryLedger: process.env.DELIVERY_LEDGER || "memory",
+  // Bearer token for /admin routes (unset = admin API disabled)
+  adminToken: process.env.ADMIN_TOKEN,
+
+  // Onchain settlement of deferred vouchers (disabled unless both are set)
+  escrowAddress: process.env.ESCROW_ADDRESS,
+  settlementPrivateKey: process.env.SETTLEMENT_PRIVATE_KEY,
+  rpcUrl: process.env.RPC_URL,
+  settlementIntervalSeconds: parseInt(
+    process.env.SETTLEMENT_INTERVAL_SECONDS || "60",
+    10
+  ),
+  // Vouchers idle (not aggregated) for this long are redeemed
+  settlementIdleSeconds: parseInt(
+    process.env.SETTLEMENT_IDLE_SECONDS || "300",
+    10
+  ),
+};
+
+// SSRF protection for wrap URLs: DNS names are checked again once resolved,
+// on every connection (see upstream-guard.ts)
+export function isUpstreamAllowed(url: string): boolean {
+  try {
+    assertUpstreamUrl(url);
     return true;
   } catch {
     return false;
@@ -0,0 +1,122 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+import { config } from "./config.js";
+
+export type LogLevel = "debug" | "info" | "warn" | "error";
+
+const LEVELS: Record<LogLevel, number> = {
+  debug: 10,
+  info: 20,
+  warn: 30,
+  error: 40,
+};
+
+export type LogFields = Record<string, unknown>;
+
+// Request the current async call chain is serving
+interface RequestContext {
+  requestId: string;
+}
+
+const requestContext = new AsyncLocalStorage<RequestContext>();
+
+/**
+ * Run `fn` (and everything it awaits) as part of the request `requestId`:
+ * log entries and upstream fetches carry the id
+ */
+export function runWithRequestId<T>(requestId: string, fn: () => T): T {
+  return requestContext.run({ requestId }, fn);
+}
+
+export function getRequestId(): string | undefined {
+  return requestContext.getStore()?.requestId;
+}
+
+// Fields whose whole value is a credential
+const REDACTED_KEYS = new Set([
+  "authorization",
+  "privatekey",
+  "signature",
+  "token",
+  "x-payment",
+  "x-receipt-token",
+  "x402_token",
+]);
+// JWTs (receipts, playback tokens) and 65-byte ECDSA signatures
+const JWT_PATTERN = /eyJ[\w-]*\.[\w-]*\.[\w-]*/g;
+const SIGNATURE_PATTERN = /0x[0-9a-fA-F]{130}(?![0-9a-fA-F])/g;
+
+/**
+ * Copy of a log field safe to write out: credential fields are replaced,
+ * JWTs and signatures masked inside strings, errors reduced to their name,
+ * message, code and cause
+ */
+export function redact(value: unknown, depth = 0): unknown {
+  if (typeof value === "string") {
+    return value
+      .replace(JWT_PATTERN, "[jwt]")
+      .replace(SIGNATURE_PATTERN, "[signature]");
+  }
+  if (typeof value === "bigint") {
+    return value.toString();
+  }
+  if (value === null || typeof value !== "object") {
+    return value;
+  }
+  if (depth >= 5) {
+    return "[truncated]";
+  }
+  if (value instanceof Error) {
+    const { code, cause } = value as { code?: unknown; cause?: unknown };
+    return redact(
+      {
+        name: value.name,
+        message: value.message,
+        ...(code !== undefined && { code }),
+        ...(cause !== undefined && { cause }),
+      },
+      depth
+    );
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => redact(item, depth + 1));
+  }
+  return Object.fromEntries(
+    Object.entries(value).map(([key, field]) => [
+      key,
+      REDACTED_KEYS.has(key.toLowerCase())
+        ? "[redacted]"
+        : redact(field, depth + 1),
+    ])
+  );
+}
+
+function write(level: LogLevel, event: string, fields: LogFields = {}) {
+  const threshold = LEVELS[config.logLevel as LogLevel] ?? LEVELS.info;
+  if (LEVELS[level] < threshold) {
+    return;
+  }
+
+  const line = JSON.stringify({
+    time: new Date().toISOString(),
+    level,
+    event,
+    requestId: getRequestId(),
+    ...(redact(fields) as LogFields),
+  });
+  if (level === "error" || level === "warn") {
+    console.error(line);
+  } else {
+    console.log(line);
+  }
+}
+
+/**
+ * Structured JSON logger: one line per named event (`payment.verified`,
+ * `upstream.fetched` ...) with the current request id and redacted fields
+ */
+export const logger = {
+  debug: (event: string, fields?: LogFields) => write("debug", event, fields),
+  info: (event: string, fields?: LogFields) => write("info", event, fields),
+  warn: (event: string, fields?: LogFields) => write("warn", event, fields),
+  error: (event: string, fields?: LogFields) => write("error", event, fields),
+};
@@ -0,0 +1,37 @@
+import { Request, Response, NextFunction } from "express";
+import { timingSafeEqual } from "node:crypto";
+import { config } from "../config.js";
+import { logger } from "../logger.js";
+
+/**
+ * Creates a middleware requiring `Authorization: Bearer <ADMIN_TOKEN>`
+ *
+ * Without a configured token, admin routes respond 404.
+ */
+export function createAdminAuthMiddleware(
+  adminToken: string | undefined = config.adminToken
+) {
+  const expected = adminToken ? Buffer.from(adminToken) : undefined;
+
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!expected) {
+      res.status(404).json({ error: "Not found" });
+      return;
+    }
+
+    const authHeader = req.header("Authorization") || "";
+    const provided = Buffer.from(
+      authHeader.startsWith("Bearer ") ? authHeader.substring(7) : ""
+    );
+    if (
+      provided.length !== expected.length ||
+      !timingSafeEqual(provided, expected)
+    ) {
+      logger.warn("admin.unauthorized", { method: req.method, path: req.path });
+      res.status(401).json({ error: "Unauthorized" });
+      return;
+    }
+
+    next();
+  };
+}
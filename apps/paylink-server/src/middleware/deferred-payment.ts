@@ -1,10 +1,13 @@
+import { randomUUID } from "node:crypto";
 import { Request, Response, NextFunction } from "express";
 import { Address, getAddress } from "viem";
 import { config } from "../config.js";
 import {
-  VoucherState,
   DEFERRED_SCHEME,
+  DeferredVoucher,
+  VoucherState,
   decodePayment,
+  isWithinMaxValue,
   verifyVoucherSignature,
 } from "@x402-video-paylink/deferred";
 import {
@@ -20,31 +23,61 @@ import {
   SupportedEVMNetworks,
 } from "x402/types";
 import { PAYWALL_TEMPLATE } from "@x402-video-paylink/paywall/gen/template";
+import {
+  createVoucherStore,
+  type VoucherStore,
+} from "../stores/voucher-store.js";
+import type { DeliveryReport, PaymentOverrides } from "../types.js";
+import {
+  getRequestReceipt,
+  getStreamId,
+  type PlaybackToken,
+} from "../receipts.js";
+import {
+  createRevocationStore,
+  type RevocationStore,
+} from "../stores/revocation-store.js";
+import {
+  createDeliveryLedger,
+  type DeliveryLedger,
+  type DeliveryRecord,
+} from "../stores/delivery-ledger.js";
+import { logger } from "../logger.js";
 
 interface DeferredPaymentOptions {
   merchantAddress: string;
   routes: RoutesConfig;
+  // Per-request overrides (e.g. per-stream step amount); null skips payment
+  resolvePaymentOptions?: (req: Request) => Promise<PaymentOverrides | null>;
+  // Defaults to the store configured by VOUCHER_STORE
+  voucherStore?: VoucherStore;
+  // Defaults to the store configured by REVOCATION_STORE
+  revocationStore?: RevocationStore;
+  // Defaults to the ledger configured by DELIVERY_LEDGER
+  deliveryLedger?: DeliveryLedger;
 }
 
-// In-memory voucher store (voucher.id -> VoucherState)
-const voucherStore = new Map<string, VoucherState>();
-
-/**
- * Store voucher
- */
-async function storeVoucher(voucherWithSignature: any) {
-  const { signature, ...voucher } = voucherWithSignature;
-  voucherStore.set(voucher.id, {
-    voucher,
-    signature,
-    lastValidated: Date.now(),
-  });
+// Voucher terms advertised in PaymentRequirements.extra and enforced here
+interface VoucherTerms {
+  resource: string; // Wrapped stream ID new vouchers must be bound to
+  stepAmount: string; // Aggregation increment in atomic units
+  // "step": stepAmount per aggregation, "time": stepAmount per minute of
+  // viewing (live streams), "range": stepAmount per byte range, no reuse
+  // (progressive files)
+  metering: "step" | "time" | "range";
+  rangeBytes?: number; // Max bytes served per range (range metering)
+  timeWindow: number; // Voucher reuse window in seconds
+  expirySeconds: number; // Max voucher lifetime (expiry - timestamp at nonce 0)
+  maxValue?: string; // Suggested spending cap for new vouchers
 }
 
 /**
  * Get payment requirements extra field for 402 response
  */
-function getPaymentRequirementsExtra(payment: string | undefined) {
+function getPaymentRequirementsExtra(
+  payment: string | undefined,
+  terms: VoucherTerms
+) {
   // If X-PAYMENT header exists, we're in aggregation mode
   if (payment) {
     try {
@@ -55,6 +88,7 @@ function getPaymentRequirementsExtra(payment: string | undefined) {
         type: "aggregation",
         voucher,
         signature,
+        ...terms,
       };
     } catch (error) {
       // Invalid payment, return new voucher requirements
@@ -67,51 +101,233 @@ function getPaymentRequirementsExtra(payment: string | undefined) {
     voucher: {
       id: `v-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
     },
+    ...terms,
+  };
+}
+
+/**
+ * Minimum valueAggregate increment for an aggregation `elapsed` seconds
+ * after the previous voucher
+ *
+ * Time metering counts at most timeWindow seconds: once the reuse window
+ * runs out, requests (including live playlist refreshes) are refused until
+ * the buyer aggregates, so there was nothing to watch in between.
+ */
+function getMinimumIncrement(terms: VoucherTerms, elapsed: number): bigint {
+  if (terms.metering !== "time") {
+    return BigInt(terms.stepAmount);
+  }
+  const seconds = BigInt(Math.max(0, Math.min(elapsed, terms.timeWindow)));
+  // Round up to the next atomic unit
+  return (BigInt(terms.stepAmount) * seconds + BigInt(59)) / BigInt(60);
+}
+
+/**
+ * Start of the window a stored voucher pays for: its timestamp, or when the
+ * server accepted it if the buyer dated it later (timestamps may run up to
+ * 60s ahead to allow for clock skew, which mustn't stretch the window)
+ */
+function getWindowStart(state: VoucherState): number {
+  const { timestamp } = state.voucher;
+  if (state.lastValidated === undefined) {
+    return timestamp;
+  }
+  return Math.min(timestamp, Math.floor(state.lastValidated / 1000));
+}
+
+/**
+ * Seconds of playback an allowance voucher pays for from its timestamp:
+ * stepAmount per minute (time metering) or per reuse window (step metering)
+ */
+function getAllowanceSeconds(
+  terms: VoucherTerms,
+  voucher: DeferredVoucher
+): number {
+  const value = BigInt(voucher.valueAggregate);
+  const stepAmount = BigInt(terms.stepAmount);
+  if (terms.metering === "time") {
+    return Number((value * BigInt(60)) / stepAmount);
+  }
+  return Number(value / stepAmount) * terms.timeWindow;
+}
+
+/**
+ * Get extra field asking the buyer to open a new voucher once the previous
+ * one reached its signed maxValue (the player asks before topping up)
+ */
+function getBudgetExceededExtra(prev: DeferredVoucher, terms: VoucherTerms) {
+  return {
+    ...getPaymentRequirementsExtra(undefined, terms),
+    type: "budget-exceeded",
+    exhausted: {
+      id: prev.id,
+      valueAggregate: prev.valueAggregate,
+      maxValue: prev.maxValue,
+    },
+  };
+}
+
+/**
+ * Record a request paid with a voucher nonce as pending in the ledger and
+ * finish it once the response closes
+ *
+ * Handlers streaming an upstream body report it in res.locals.delivery;
+ * other responses are complete when they finished with a success status.
+ * Anything else (error status, truncated body, client gone) is refunded.
+ */
+async function beginDelivery(
+  ledger: DeliveryLedger,
+  req: Request,
+  res: Response,
+  voucher: DeferredVoucher,
+  maxBillable?: number
+): Promise<boolean> {
+  const delivery: DeliveryRecord = {
+    id: randomUUID(),
+    voucherId: voucher.id,
+    nonce: voucher.nonce,
+    resource: voucher.resource,
+    path: req.path,
+    state: "pending",
+    bytes: 0,
+    startedAt: Date.now(),
+    expiresAt: voucher.expiry,
+  };
+  if (!(await ledger.begin(delivery, maxBillable))) {
+    return false;
+  }
+
+  const finish = () => {
+    const reported = res.locals.delivery as DeliveryReport | undefined;
+    const finished = res.writableFinished && res.statusCode < 400;
+    const complete = finished && (reported?.complete ?? true);
+    const bytes =
+      reported?.bytes ??
+      (finished ? Number(res.getHeader("content-length") ?? 0) : 0);
+    if (!complete) {
+      logger.info("delivery.refunded", {
+        voucherId: delivery.voucherId,
+        nonce: delivery.nonce,
+        path: delivery.path,
+        status: res.statusCode,
+        bytes,
+      });
+    }
+    ledger
+      .finish({
+        ...delivery,
+        state: complete ? "complete" : "failed",
+        status: res.statusCode,
+        bytes,
+        finishedAt: Date.now(),
+      })
+      .catch((err) =>
+        logger.error("delivery.record_failed", {
+          deliveryId: delivery.id,
+          error: err,
+        })
+      );
   };
+  // The client may have gone away while the delivery was recorded
+  if (res.destroyed) {
+    finish();
+  } else {
+    res.once("close", finish);
+  }
+  return true;
 }
 
 /**
  * Creates a middleware for deferred payment verification
  *
  * Flow:
- * 1. Check for X-PAYMENT header with voucher
- * 2. Verify EIP-712 signature (no onchain interaction)
- * 3. Store voucher in local store
- * 4. No settlement (deferred scheme doesn't settle immediately)
+ * 1. Check for X-PAYMENT header with voucher and the manifest receipt JWT
+ *    (not issued for free live manifests)
+ * 2. Verify EIP-712 signature (no onchain interaction), bound to the
+ *    requested stream and the receipt's buyer
+ * 3. Store voucher via compare-and-set on its nonce (live streams: the
+ *    aggregated value must cover the viewing time since the last voucher;
+ *    progressive files: every byte range needs a new aggregation)
+ * 4. Record the request in the delivery ledger: failed or truncated
+ *    deliveries are refunded, so a nonce that delivered nothing may be
+ *    reused instead of aggregated
+ * 5. No settlement (deferred scheme doesn't settle immediately)
+ *
+ * Requests without X-PAYMENT may carry a playback token (x402_token query
+ * parameter) instead, valid while its voucher is within the reuse window,
+ * or for allowance tokens (external players) while the voucher's value
+ * covers the time since it was signed.
  */
 export function createDeferredPaymentMiddleware(
   options: DeferredPaymentOptions
 ) {
-  const { merchantAddress, routes } = options;
+  const { merchantAddress, routes, resolvePaymentOptions } = options;
+  const voucherStore = options.voucherStore ?? createVoucherStore();
+  const revocationStore = options.revocationStore ?? createRevocationStore();
+  const deliveryLedger = options.deliveryLedger ?? createDeliveryLedger();
   const x402Version = 1;
 
   // Pre-compile route patterns to regex
   const routePatterns = computeRoutePatterns(routes);
 
-  console.log(
-    "[DEFERRED] Creating middleware with routes:",
-    JSON.stringify(routes)
-  );
-
-  return async (req: Request, res: Response, next: NextFunction) => {
-    console.log(`[DEFERRED] ${req.method} ${req.path}`);
+  logger.debug("payment.middleware_created", {
+    scheme: DEFERRED_SCHEME,
+    routes: Object.keys(routes),
+  });
 
+  const handle = async (req: Request, res: Response, next: NextFunction) => {
     // 1. Find matching route
     const matchingRoute = findMatchingRoute(
       routePatterns,
       req.path,
       req.method.toUpperCase()
     );
-    console.log(
-      `[DEFERRED] Matching route:`,
-      matchingRoute ? "found" : "NOT FOUND"
-    );
     if (!matchingRoute) {
-      console.log(`[DEFERRED] No matching route, passing to next middleware`);
+      logger.debug("payment.skipped", {
+        scheme: DEFERRED_SCHEME,
+        reason: "no_route",
+      });
+      return next();
+    }
+
+    // Main file purchased through the exact scheme by this request
+    if (res.locals.paymentScheme === "exact") {
+      logger.debug("payment.skipped", {
+        scheme: DEFERRED_SCHEME,
+        reason: "paid_exact",
+      });
+      return next();
+    }
+
+    // Per-request overrides (e.g. per-stream step amount and payTo)
+    const overrides = resolvePaymentOptions
+      ? await resolvePaymentOptions(req)
+      : {};
+    if (overrides === null) {
+      logger.debug("payment.skipped", {
+        scheme: DEFERRED_SCHEME,
+        reason: "nothing_to_pay",
+      });
       return next();
     }
 
     const { price, network, config: routeConfig = {} } = matchingRoute.config;
+    const payTo = overrides.payTo ?? merchantAddress;
+    const terms: VoucherTerms = {
+      resource: getStreamId(req.path) ?? req.path,
+      stepAmount: overrides.stepAmount ?? config.stepAmount,
+      timeWindow: config.voucherTimeWindow,
+      expirySeconds: config.voucherExpirySeconds,
+      maxValue: config.voucherMaxValue,
+      metering: overrides.live
+        ? "time"
+        : overrides.progressive
+          ? "range"
+          : "step",
+      rangeBytes: overrides.progressive
+        ? config.progressiveRangeBytes
+        : undefined,
+    };
     const {
       description,
       mimeType,
@@ -128,7 +344,10 @@ export function createDeferredPaymentMiddleware(
     if ("error" in atomicAmountForAsset) {
       throw new Error(atomicAmountForAsset.error);
     }
-    const { maxAmountRequired, asset } = atomicAmountForAsset;
+    const { asset } = atomicAmountForAsset;
+    // A per-stream step amount is also the value of the first voucher
+    const maxAmountRequired =
+      overrides.stepAmount ?? atomicAmountForAsset.maxAmountRequired;
 
     const resourceUrl: Resource =
       resource || (`${config.baseUrl}${req.path}` as Resource);
@@ -138,16 +357,16 @@ export function createDeferredPaymentMiddleware(
 
     let paymentRequirements: PaymentRequirements[] = [];
     if (SupportedEVMNetworks.includes(network)) {
-      const extra = getPaymentRequirementsExtra(payment);
+      const extra = getPaymentRequirementsExtra(payment, terms);
 
       paymentRequirements.push({
         scheme: DEFERRED_SCHEME,
         network,
         maxAmountRequired,
         resource: resourceUrl,
-        description: description ?? "",
-        mimeType: mimeType ?? "",
-        payTo: getAddress(merchantAddress as Address),
+        description: overrides.description ?? description ?? "",
+        mimeType: overrides.mimeType ?? mimeType ?? "",
+        payTo: getAddress(payTo as Address),
         maxTimeoutSeconds: maxTimeoutSeconds ?? 60,
         asset: getAddress(asset.address),
         outputSchema: {
@@ -171,13 +390,63 @@ export function createDeferredPaymentMiddleware(
     const isWebBrowser =
       acceptHeader.includes("text/html") && userAgent.includes("Mozilla");
 
+    // Native players (Safari HLS, AirPlay) can't send X-PAYMENT: their
+    // playback token stands for the voucher the paywall page keeps
+    // aggregating, which must still be within its reuse window. External
+    // players have no page: their allowance voucher is never aggregated
+    // and lasts as long as its value
+    if (!payment) {
+      const receipt = await getRequestReceipt(req, revocationStore);
+      if (receipt && "vid" in receipt) {
+        const { vid, allowance } = receipt as PlaybackToken;
+        const state = await voucherStore.get(vid);
+        const now = Math.floor(Date.now() / 1000);
+        const validFor =
+          state && allowance
+            ? getAllowanceSeconds(terms, state.voucher)
+            : terms.timeWindow;
+        if (
+          state &&
+          !state.settlement &&
+          terms.metering !== "range" &&
+          state.voucher.resource === terms.resource &&
+          state.voucher.buyer.toLowerCase() === receipt.sub.toLowerCase() &&
+          now - getWindowStart(state) <= validFor
+        ) {
+          logger.debug("payment.verified", {
+            scheme: DEFERRED_SCHEME,
+            voucherId: vid,
+            playbackToken: true,
+            allowance: !!allowance,
+          });
+          await beginDelivery(deliveryLedger, req, res, state.voucher);
+          return next();
+        }
+
+        logger.info("voucher.rejected", {
+          voucherId: vid,
+          reason: allowance ? "allowance_exhausted" : "playback_expired",
+        });
+        res.status(402).json({
+          x402Version,
+          error: allowance
+            ? "Playback allowance exhausted"
+            : "Playback voucher expired, please aggregate",
+          accepts: toJsonSafe(paymentRequirements),
+        });
+        return;
+      }
+    }
+
     if (!payment) {
       if (isWebBrowser) {
         // Build x402 config with paymentRequirements
         const x402Config = {
           streamUrl: req.path,
-          merchantAddress: config.merchantAddress,
-          amount: config.streamPriceUSDC,
+          merchantAddress: payTo,
+          amount: overrides.price ?? config.streamPriceUSDC,
+          title: overrides.title,
+          description: overrides.description,
           network: config.network,
           testnet: config.network === "base-sepolia",
           cdpClientKey: process.env.CDP_API_KEY || "",
@@ -212,7 +481,7 @@ export function createDeferredPaymentMiddleware(
     try {
       decodedPayment = decodePayment(payment);
     } catch (error) {
-      console.error("[DEFERRED] Failed to decode payment:", error);
+      logger.warn("payment.invalid", { scheme: DEFERRED_SCHEME, error });
       res.status(402).json({
         x402Version,
         error: "Invalid or malformed X-PAYMENT header",
@@ -223,13 +492,57 @@ export function createDeferredPaymentMiddleware(
 
     const { voucher, signature } = decodedPayment.payload;
 
+    // Segments require the receipt JWT issued for the manifest (free live
+    // manifests issue none, the voucher signature identifies the buyer)
+    const receiptRequired = !(overrides.live && Number(overrides.price) === 0);
+    const receipt = await getRequestReceipt(req, revocationStore);
+    if (!receipt && receiptRequired) {
+      logger.info("voucher.rejected", {
+        voucherId: voucher.id,
+        reason: "receipt_required",
+      });
+      res.status(401).json({ error: "Valid receipt token required" });
+      return;
+    }
+
     // 5. Validate voucher requirements
+    // Check voucher is bound to the requested stream
+    if (voucher.resource !== terms.resource) {
+      logger.info("voucher.rejected", {
+        voucherId: voucher.id,
+        reason: "resource_mismatch",
+      });
+      res.status(402).json({
+        x402Version,
+        error: `Resource mismatch: expected ${terms.resource}`,
+        accepts: toJsonSafe(paymentRequirements),
+      });
+      return;
+    }
+
+    // Check buyer is the payer of the manifest receipt
+    if (receipt && voucher.buyer.toLowerCase() !== receipt.sub.toLowerCase()) {
+      logger.info("voucher.rejected", {
+        voucherId: voucher.id,
+        reason: "buyer_mismatch",
+      });
+      res.status(402).json({
+        x402Version,
+        error: "Buyer mismatch: voucher buyer must match the receipt subject",
+        accepts: toJsonSafe(paymentRequirements),
+      });
+      return;
+    }
+
     // Check seller matches
-    if (voucher.seller.toLowerCase() !== merchantAddress.toLowerCase()) {
-      console.log(`[DEFERRED] Seller mismatch`);
+    if (voucher.seller.toLowerCase() !== payTo.toLowerCase()) {
+      logger.info("voucher.rejected", {
+        voucherId: voucher.id,
+        reason: "seller_mismatch",
+      });
       res.status(402).json({
         x402Version,
-        error: `Seller mismatch: expected ${merchantAddress}`,
+        error: `Seller mismatch: expected ${payTo}`,
         accepts: toJsonSafe(paymentRequirements),
       });
       return;
@@ -237,7 +550,10 @@ export function createDeferredPaymentMiddleware(
 
     // Check asset matches
     if (voucher.asset.toLowerCase() !== config.assetAddress.toLowerCase()) {
-      console.log(`[DEFERRED] Asset mismatch`);
+      logger.info("voucher.rejected", {
+        voucherId: voucher.id,
+        reason: "asset_mismatch",
+      });
       res.status(402).json({
         x402Version,
         error: `Asset mismatch: expected ${config.assetAddress}`,
@@ -248,7 +564,10 @@ export function createDeferredPaymentMiddleware(
 
     // Check chainId matches
     if (voucher.chainId !== chainId) {
-      console.log(`[DEFERRED] ChainId mismatch`);
+      logger.info("voucher.rejected", {
+        voucherId: voucher.id,
+        reason: "chain_mismatch",
+      });
       res.status(402).json({
         x402Version,
         error: `ChainId mismatch: expected ${chainId}`,
@@ -260,7 +579,10 @@ export function createDeferredPaymentMiddleware(
     // Check expiry
     const now = Math.floor(Date.now() / 1000);
     if (now > voucher.expiry) {
-      console.log(`[DEFERRED] Voucher expired`);
+      logger.info("voucher.rejected", {
+        voucherId: voucher.id,
+        reason: "expired",
+      });
       res.status(402).json({
         x402Version,
         error: "Voucher expired",
@@ -271,7 +593,10 @@ export function createDeferredPaymentMiddleware(
 
     // Check timestamp is reasonable
     if (voucher.timestamp > now + 60) {
-      console.log(`[DEFERRED] Voucher timestamp too far in future`);
+      logger.info("voucher.rejected", {
+        voucherId: voucher.id,
+        reason: "timestamp_invalid",
+      });
       res.status(402).json({
         x402Version,
         error: "Voucher timestamp invalid",
@@ -283,7 +608,10 @@ export function createDeferredPaymentMiddleware(
     // 6. Verify EIP-712 signature
     const valid = await verifyVoucherSignature(voucher, signature);
     if (!valid) {
-      console.log("[DEFERRED] Signature verification failed");
+      logger.info("voucher.rejected", {
+        voucherId: voucher.id,
+        reason: "invalid_signature",
+      });
       res.status(402).json({
         x402Version,
         error: "Invalid voucher signature",
@@ -291,20 +619,82 @@ export function createDeferredPaymentMiddleware(
       });
       return;
     }
+    logger.info("payment.verified", {
+      scheme: DEFERRED_SCHEME,
+      voucherId: voucher.id,
+      nonce: voucher.nonce,
+      buyer: voucher.buyer,
+      valueAggregate: voucher.valueAggregate,
+    });
 
     // 7. Check for aggregation or reuse
-    const previousVoucher = voucherStore.get(voucher.id);
+    const previousVoucher = await voucherStore.get(voucher.id);
+    // null = first voucher for this ID, undefined = reuse (nothing to store)
+    let expectedNonce: number | null | undefined = null;
+    // Set when reusing a refunded nonce (see step 9)
+    let maxBillable: number | undefined;
+    if (previousVoucher?.settlement) {
+      // Settlement started: the voucher is final, buyer must open a new one
+      logger.info("voucher.rejected", {
+        voucherId: voucher.id,
+        reason: "settled",
+        settlement: previousVoucher.settlement.status,
+      });
+      res.status(402).json({
+        x402Version,
+        error: "Voucher already settled, please create a new voucher",
+        accepts: toJsonSafe([
+          {
+            ...paymentRequirements[0],
+            extra: getPaymentRequirementsExtra(undefined, terms),
+          },
+        ]),
+      });
+      return;
+    }
+
     if (previousVoucher) {
       const prev = previousVoucher.voucher;
 
       // Check if this is voucher reuse (same nonce) or aggregation (nonce++)
       if (voucher.nonce === prev.nonce) {
-        // Voucher reuse: check if timestamp is within 20 seconds
-        const timeDiff = now - prev.timestamp;
-        if (timeDiff > 20) {
-          console.log(
-            `[DEFERRED] Voucher expired (${timeDiff}s > 20s), requesting aggregation`
-          );
+        // Voucher reuse: check if timestamp is within the reuse window
+        // (range metering: each voucher pays for a single range)
+        const timeDiff = now - getWindowStart(previousVoucher);
+        const used = timeDiff > terms.timeWindow || terms.metering === "range";
+        // Failed or truncated deliveries are refunded: a nonce that paid
+        // for nothing delivered may be reused instead of aggregated
+        const refunded =
+          used &&
+          (await deliveryLedger.countBillable(prev.id, prev.nonce)) === 0;
+        if (used && !refunded) {
+          // Next aggregation would exceed the signed spending cap
+          const nextValue =
+            BigInt(prev.valueAggregate) + getMinimumIncrement(terms, timeDiff);
+          if (!isWithinMaxValue(prev, nextValue)) {
+            logger.info("voucher.rejected", {
+              voucherId: prev.id,
+              reason: "budget_exceeded",
+            });
+            res.status(402).json({
+              x402Version,
+              error: "Voucher budget exceeded",
+              accepts: toJsonSafe([
+                {
+                  ...paymentRequirements[0],
+                  extra: getBudgetExceededExtra(prev, terms),
+                },
+              ]),
+            });
+            return;
+          }
+
+          logger.info("voucher.aggregation_required", {
+            voucherId: prev.id,
+            nonce: prev.nonce,
+            metering: terms.metering,
+            age: timeDiff,
+          });
 
           // Update extra to request aggregation with current voucher
           const aggregationRequirements = [...paymentRequirements];
@@ -314,29 +704,59 @@ export function createDeferredPaymentMiddleware(
               type: "aggregation",
               voucher: prev,
               signature: previousVoucher.signature,
+              ...terms,
             },
           };
 
           res.status(402).json({
             x402Version,
-            error: "Voucher timestamp expired, please aggregate",
+            error:
+              terms.metering === "range"
+                ? "Voucher already used, please aggregate"
+                : "Voucher timestamp expired, please aggregate",
             accepts: toJsonSafe(aggregationRequirements),
           });
           return;
         }
 
-        // Voucher is still valid (< 20 seconds), allow reuse
-        console.log(
-          `[DEFERRED] Reusing voucher nonce=${voucher.nonce} (${timeDiff}s old)`
-        );
+        // Reused voucher must be the stored one, not a re-signed copy
+        // with a fresh timestamp
+        if (
+          signature.toLowerCase() !== previousVoucher.signature.toLowerCase()
+        ) {
+          logger.info("voucher.rejected", {
+            voucherId: voucher.id,
+            reason: "signature_mismatch",
+          });
+          res.status(402).json({
+            x402Version,
+            error: `Nonce mismatch: expected ${prev.nonce + 1}`,
+            accepts: toJsonSafe(paymentRequirements),
+          });
+          return;
+        }
+
+        // Voucher is still valid (within the reuse window or refunded),
+        // allow reuse
+        expectedNonce = undefined;
+        if (refunded) {
+          maxBillable = 1;
+        }
+        logger.debug("voucher.reused", {
+          voucherId: voucher.id,
+          nonce: voucher.nonce,
+          age: timeDiff,
+          refunded,
+        });
         // Continue to allow access
       } else if (voucher.nonce !== prev.nonce + 1) {
         // Nonce must be either same or prev+1
-        console.log(
-          `[DEFERRED] Nonce mismatch: expected ${prev.nonce} or ${
-            prev.nonce + 1
-          }, got ${voucher.nonce}`
-        );
+        logger.info("voucher.rejected", {
+          voucherId: voucher.id,
+          reason: "nonce_mismatch",
+          nonce: voucher.nonce,
+          expected: prev.nonce + 1,
+        });
         res.status(402).json({
           x402Version,
           error: `Nonce mismatch: expected ${prev.nonce + 1}`,
@@ -345,22 +765,61 @@ export function createDeferredPaymentMiddleware(
         return;
       } else {
         // Nonce incremented (aggregation)
-        // Check valueAggregate increased by stepAmount
+        // Check valueAggregate increased by stepAmount (time metering: by
+        // at least the viewing time since the previous voucher, counted
+        // from timestamps no later than the server clock)
+        const value = BigInt(voucher.valueAggregate);
         const expectedValue =
-          BigInt(prev.valueAggregate) + BigInt(config.stepAmount);
-        if (BigInt(voucher.valueAggregate) !== expectedValue) {
-          console.log(`[DEFERRED] ValueAggregate mismatch`);
+          BigInt(prev.valueAggregate) +
+          getMinimumIncrement(
+            terms,
+            Math.min(voucher.timestamp, now) - getWindowStart(previousVoucher)
+          );
+        if (
+          terms.metering === "time"
+            ? value < expectedValue
+            : value !== expectedValue
+        ) {
+          logger.info("voucher.rejected", {
+            voucherId: voucher.id,
+            reason: "value_mismatch",
+          });
           res.status(402).json({
             x402Version,
-            error: `ValueAggregate mismatch: expected ${expectedValue}`,
+            error:
+              terms.metering === "time"
+                ? `ValueAggregate too low: expected at least ${expectedValue}`
+                : `ValueAggregate mismatch: expected ${expectedValue}`,
             accepts: toJsonSafe(paymentRequirements),
           });
           return;
         }
 
+        // Check spending cap signed at nonce 0
+        if (!isWithinMaxValue(prev, value)) {
+          logger.info("voucher.rejected", {
+            voucherId: voucher.id,
+            reason: "budget_exceeded",
+          });
+          res.status(402).json({
+            x402Version,
+            error: "Voucher budget exceeded",
+            accepts: toJsonSafe([
+              {
+                ...paymentRequirements[0],
+                extra: getBudgetExceededExtra(prev, terms),
+              },
+            ]),
+          });
+          return;
+        }
+
         // Check timestamp increased
         if (voucher.timestamp <= prev.timestamp) {
-          console.log(`[DEFERRED] Timestamp must increase`);
+          logger.info("voucher.rejected", {
+            voucherId: voucher.id,
+            reason: "timestamp_not_increasing",
+          });
           res.status(402).json({
             x402Version,
             error: "Timestamp must increase",
@@ -372,12 +831,18 @@ export function createDeferredPaymentMiddleware(
         // Check immutable fields
         if (
           voucher.id !== prev.id ||
+          voucher.resource !== prev.resource ||
           voucher.seller.toLowerCase() !== prev.seller.toLowerCase() ||
           voucher.buyer.toLowerCase() !== prev.buyer.toLowerCase() ||
           voucher.asset.toLowerCase() !== prev.asset.toLowerCase() ||
-          voucher.chainId !== prev.chainId
+          voucher.chainId !== prev.chainId ||
+          voucher.expiry !== prev.expiry ||
+          BigInt(voucher.maxValue ?? 0) !== BigInt(prev.maxValue ?? 0)
         ) {
-          console.log(`[DEFERRED] Immutable fields changed`);
+          logger.info("voucher.rejected", {
+            voucherId: voucher.id,
+            reason: "immutable_fields_changed",
+          });
           res.status(402).json({
             x402Version,
             error: "Immutable fields changed during aggregation",
@@ -386,14 +851,17 @@ export function createDeferredPaymentMiddleware(
           return;
         }
 
-        console.log(`[DEFERRED] Aggregation valid: nonce ${voucher.nonce}`);
+        expectedNonce = prev.nonce;
       }
     } else {
       // First voucher for this ID
       if (voucher.nonce !== 0) {
-        console.log(
-          `[DEFERRED] First voucher must have nonce=0, got ${voucher.nonce}`
-        );
+        logger.info("voucher.rejected", {
+          voucherId: voucher.id,
+          reason: "nonce_mismatch",
+          nonce: voucher.nonce,
+          expected: 0,
+        });
         res.status(402).json({
           x402Version,
           error: "First voucher must have nonce=0",
@@ -401,55 +869,161 @@ export function createDeferredPaymentMiddleware(
         });
         return;
       }
-      console.log(`[DEFERRED] New voucher: id ${voucher.id}`);
-    }
-
-    // 8. Store voucher state
-    await storeVoucher({ ...voucher, signature });
 
-    // 9. Intercept res.end to add Payment-Response header
-    type EndArgs =
-      | [cb?: () => void]
-      | [chunk: any, cb?: () => void]
-      | [chunk: any, encoding: BufferEncoding, cb?: () => void];
-
-    const originalEnd = res.end.bind(res);
-    let endArgs: EndArgs | null = null;
+      // Voucher lifetime must stay within the advertised expiry
+      if (voucher.expiry - voucher.timestamp > terms.expirySeconds) {
+        logger.info("voucher.rejected", {
+          voucherId: voucher.id,
+          reason: "expiry_too_far",
+        });
+        res.status(402).json({
+          x402Version,
+          error: `Voucher expiry too far: max ${terms.expirySeconds}s`,
+          accepts: toJsonSafe(paymentRequirements),
+        });
+        return;
+      }
 
-    res.end = function (...args: EndArgs) {
-      endArgs = args;
-      return res;
-    };
+      // First voucher must cover at least the advertised amount
+      if (BigInt(voucher.valueAggregate) < BigInt(maxAmountRequired)) {
+        logger.info("voucher.rejected", {
+          voucherId: voucher.id,
+          reason: "value_too_low",
+        });
+        res.status(402).json({
+          x402Version,
+          error: `ValueAggregate too low: expected at least ${maxAmountRequired}`,
+          accepts: toJsonSafe(paymentRequirements),
+        });
+        return;
+      }
 
-    // 10. Proceed to next middleware/route handler
-    next();
+      if (!isWithinMaxValue(voucher, BigInt(voucher.valueAggregate))) {
+        logger.info("voucher.rejected", {
+          voucherId: voucher.id,
+          reason: "value_exceeds_max",
+        });
+        res.status(402).json({
+          x402Version,
+          error: "ValueAggregate exceeds maxValue",
+          accepts: toJsonSafe(paymentRequirements),
+        });
+        return;
+      }
+    }
 
-    // 11. If response is error, don't set Payment-Response
-    if (res.statusCode >= 400) {
-      res.end = originalEnd;
-      if (endArgs) {
-        originalEnd(...(endArgs as Parameters<typeof res.end>));
+    // 8. Store voucher state (atomic across instances, and only while
+    // settlement hasn't claimed the voucher)
+    if (expectedNonce !== undefined) {
+      const stored = await voucherStore.compareAndSet(
+        voucher.id,
+        expectedNonce,
+        { voucher, signature, lastValidated: Date.now() }
+      );
+      if (!stored) {
+        // Another request (possibly on another instance) or the settlement
+        // won the race
+        const current = await voucherStore.get(voucher.id);
+        if (current?.settlement) {
+          logger.info("voucher.rejected", {
+            voucherId: voucher.id,
+            reason: "settled",
+            settlement: current.settlement.status,
+          });
+          res.status(402).json({
+            x402Version,
+            error: "Voucher already settled, please create a new voucher",
+            accepts: toJsonSafe([
+              {
+                ...paymentRequirements[0],
+                extra: getPaymentRequirementsExtra(undefined, terms),
+              },
+            ]),
+          });
+          return;
+        }
+        const currentNonce = current?.voucher.nonce ?? -1;
+        logger.info("voucher.rejected", {
+          voucherId: voucher.id,
+          reason: "concurrent_update",
+          nonce: voucher.nonce,
+          expected: currentNonce + 1,
+        });
+        res.status(402).json({
+          x402Version,
+          error: `Nonce mismatch: expected ${currentNonce + 1}`,
+          accepts: toJsonSafe(paymentRequirements),
+        });
+        return;
       }
+      logger.info(
+        expectedNonce === null ? "voucher.created" : "voucher.aggregated",
+        {
+          voucherId: voucher.id,
+          nonce: voucher.nonce,
+          valueAggregate: voucher.valueAggregate,
+          metering: terms.metering,
+        }
+      );
+    }
+
+    // 9. Record the delivery paid with this nonce (a refunded nonce only
+    // pays for one more request)
+    if (
+      !(await beginDelivery(deliveryLedger, req, res, voucher, maxBillable))
+    ) {
+      logger.info("voucher.rejected", {
+        voucherId: voucher.id,
+        reason: "refund_claimed",
+        nonce: voucher.nonce,
+      });
+      res.status(402).json({
+        x402Version,
+        error: "Voucher already used, please aggregate",
+        accepts: toJsonSafe(paymentRequirements),
+      });
       return;
     }
 
-    // 12. Set Payment-Response header (no settlement in deferred scheme)
-    res.setHeader(
-      "X-PAYMENT-RESPONSE",
-      JSON.stringify({
-        scheme: DEFERRED_SCHEME,
-        network: config.network,
-        id: voucher.id,
-        timestamp: Math.floor(Date.now() / 1000),
-        success: true,
-      })
-    );
+    // 10. Set Payment-Response header when the handler sends a success
+    // status (no settlement in deferred scheme). Headers go out before the
+    // body, so a body failing mid-stream is only reflected in the ledger
+    const writeHead = res.writeHead;
+    res.writeHead = function (this: Response, ...args: unknown[]) {
+      if ((args[0] as number) < 400) {
+        res.setHeader(
+          "X-PAYMENT-RESPONSE",
+          JSON.stringify({
+            scheme: DEFERRED_SCHEME,
+            network: config.network,
+            id: voucher.id,
+            timestamp: Math.floor(Date.now() / 1000),
+            success: true,
+          })
+        );
+      }
+      return writeHead.apply(this, args as Parameters<typeof writeHead>);
+    } as typeof res.writeHead;
 
-    console.log(`[DEFERRED] Request completed successfully`);
+    // 11. Proceed to next middleware/route handler
+    next();
+  };
 
-    res.end = originalEnd;
-    if (endArgs) {
-      originalEnd(...(endArgs as Parameters<typeof res.end>));
+  // Express 4 doesn't catch rejected handlers: a voucher store, ledger or
+  // stream registry failure answers 503 instead of crashing the process
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      await handle(req, res, next);
+    } catch (err) {
+      logger.error("payment.unavailable", {
+        scheme: DEFERRED_SCHEME,
+        path: req.path,
+        error: err,
+      });
+      if (res.headersSent) {
+        return next(err);
+      }
+      res.status(503).json({ error: "Payment service unavailable" });
     }
   };
 }
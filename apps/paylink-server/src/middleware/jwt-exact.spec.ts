@@ -0,0 +1,329 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import express, { type RequestHandler } from "express";
+import request from "supertest";
+import { randomUUID } from "node:crypto";
+import { Readable } from "node:stream";
+import { pipeline } from "node:stream/promises";
+import { hashPaymentRequirements } from "@x402-video-paylink/payment-receipt";
+import { config } from "../config.js";
+import { issueReceiptToken, verifyReceiptToken } from "../receipts.js";
+import { InMemoryRevocationStore } from "../stores/revocation-store.js";
+import type { PaymentOverrides } from "../types.js";
+import { createJWTExactMiddleware } from "./jwt-exact.js";
+
+const facilitator = vi.hoisted(() => ({ verify: vi.fn(), settle: vi.fn() }));
+vi.mock("x402/verify", () => ({ useFacilitator: () => facilitator }));
+
+const PAYER = "0x00000000000000000000000000000000000000aa";
+const MERCHANT = "0x00000000000000000000000000000000000000bb";
+
+// Manifest route behind the exact middleware in strict mode
+function createStrictApp(overrides: PaymentOverrides) {
+  const app = express();
+  app.get(
+    "/stream/:id.:ext",
+    createJWTExactMiddleware({
+      merchantAddress: MERCHANT,
+      routes: {
+        "/stream/*.*": { price: "0.01", network: "base-sepolia" },
+      },
+      resolvePaymentOptions: async () => overrides,
+      revocationStore: new InMemoryRevocationStore(),
+      strictRequirements: true,
+    }),
+    (_req, res) => {
+      res.json({ ok: true });
+    }
+  );
+  return app;
+}
+
+function receiptToken(req: string) {
+  return issueReceiptToken({
+    iss: config.baseUrl,
+    sub: PAYER,
+    req,
+    iat: Math.floor(Date.now() / 1000),
+    jti: randomUUID(),
+    scope: [`${config.baseUrl}/stream/abc*`],
+  });
+}
+
+describe("createJWTExactMiddleware (strict requirements)", () => {
+  it("should accept receipts issued for the current requirements", async () => {
+    const app = createStrictApp({ price: "0.05" });
+    const { body } = await request(app).get("/stream/abc.m3u8");
+    const token = await receiptToken(hashPaymentRequirements(body.accepts[0]));
+
+    const response = await request(app)
+      .get("/stream/abc.m3u8")
+      .set("Authorization", `Bearer ${token}`);
+
+    expect(response.status).toBe(200);
+  });
+
+  it("should refuse receipts after a price or payTo change", async () => {
+    const { body } = await request(createStrictApp({ price: "0.05" })).get(
+      "/stream/abc.m3u8"
+    );
+    const token = await receiptToken(hashPaymentRequirements(body.accepts[0]));
+
+    for (const overrides of [
+      { price: "0.10" },
+      { price: "0.05", payTo: "0x00000000000000000000000000000000000000cc" },
+    ]) {
+      const response = await request(createStrictApp(overrides))
+        .get("/stream/abc.m3u8")
+        .set("Authorization", `Bearer ${token}`);
+
+      expect(response.status).toBe(402);
+    }
+  });
+
+  it("should refuse receipts without a requirements hash", async () => {
+    const token = await receiptToken("/stream/abc.m3u8");
+
+    const response = await request(createStrictApp({}))
+      .get("/stream/abc.m3u8")
+      .set("Authorization", `Bearer ${token}`);
+
+    expect(response.status).toBe(402);
+  });
+});
+
+describe("createJWTExactMiddleware (payment options)", () => {
+  it("should answer 503 instead of serving for free when they can't be resolved", async () => {
+    const handler = vi.fn((_req, res) => res.json({ ok: true }));
+    const app = express();
+    app.get(
+      "/stream/:id.:ext",
+      createJWTExactMiddleware({
+        merchantAddress: MERCHANT,
+        routes: {
+          "/stream/*.*": { price: "0.01", network: "base-sepolia" },
+        },
+        resolvePaymentOptions: async () => {
+          throw new Error("Stream registry unavailable");
+        },
+        revocationStore: new InMemoryRevocationStore(),
+      }),
+      handler
+    );
+
+    const response = await request(app).get("/stream/abc.m3u8");
+
+    expect(response.status).toBe(503);
+    expect(handler).not.toHaveBeenCalled();
+  });
+});
+
+// X-PAYMENT header with an EIP-3009 authorization (checked by the mocked
+// facilitator)
+const PAYMENT = Buffer.from(
+  JSON.stringify({
+    x402Version: 1,
+    scheme: "exact",
+    network: "base-sepolia",
+    payload: {
+      signature: `0x${"11".repeat(65)}`,
+      authorization: {
+        from: PAYER,
+        to: MERCHANT,
+        value: "10000",
+        validAfter: "0",
+        validBefore: "9999999999",
+        nonce: `0x${"22".repeat(32)}`,
+      },
+    },
+  })
+).toString("base64");
+
+// Manifest route behind the exact middleware, recording the order of
+// settlement and handler events
+function createPaidApp(
+  settlement: "before" | "after",
+  handler: RequestHandler,
+  maxBufferBytes?: number
+) {
+  const events: string[] = [];
+  facilitator.settle.mockImplementation(async () => {
+    events.push("settle");
+    return {
+      success: true,
+      transaction: `0x${"33".repeat(32)}`,
+      network: "base-sepolia",
+      payer: PAYER,
+    };
+  });
+
+  const app = express();
+  app.get(
+    "/stream/:id.:ext",
+    createJWTExactMiddleware({
+      merchantAddress: MERCHANT,
+      routes: {
+        "/stream/*.*": { price: "0.01", network: "base-sepolia" },
+      },
+      revocationStore: new InMemoryRevocationStore(),
+      settlement,
+      maxBufferBytes,
+    }),
+    (req, res, next) => {
+      events.push("handler");
+      handler(req, res, next);
+    }
+  );
+  return { app, events };
+}
+
+// Playlist streamed in two writes, like a proxied body
+const streamPlaylist: RequestHandler = (_req, res) => {
+  res.setHeader("Content-Type", "application/vnd.apple.mpegurl");
+  res.write("#EXTM3U\n");
+  setTimeout(() => res.end("#EXT-X-ENDLIST\n"), 10);
+};
+
+// 8 KB progressive body piped in 1 KB chunks (an origin ignoring Range),
+// recording when it finished
+function streamFile(events: string[]): RequestHandler {
+  return async (_req, res) => {
+    const chunks = Array.from({ length: 8 }, (_, i) =>
+      Buffer.alloc(1024, 97 + i)
+    );
+    res.setHeader("Content-Type", "video/mp4");
+    await pipeline(Readable.from(chunks), res).catch(() => {});
+    events.push("body_end");
+  };
+}
+
+describe("createJWTExactMiddleware (settlement)", () => {
+  beforeEach(() => {
+    facilitator.verify.mockReset().mockResolvedValue({
+      isValid: true,
+      payer: PAYER,
+    });
+    facilitator.settle.mockReset();
+  });
+
+  it("should settle before streaming and send the receipt headers", async () => {
+    const { app, events } = createPaidApp("before", streamPlaylist);
+
+    const response = await request(app)
+      .get("/stream/abc.m3u8")
+      .set("X-PAYMENT", PAYMENT);
+
+    expect(response.status).toBe(200);
+    expect(response.text).toBe("#EXTM3U\n#EXT-X-ENDLIST\n");
+    expect(events).toEqual(["settle", "handler"]);
+    expect(response.headers["x-payment-response"]).toBeDefined();
+    const receipt = await verifyReceiptToken(
+      response.headers["x-receipt-token"]
+    );
+    expect(receipt).toMatchObject({
+      sub: PAYER,
+      scope: [`${config.baseUrl}/stream/abc*`],
+    });
+  });
+
+  it("should not run the handler when settlement fails", async () => {
+    const { app, events } = createPaidApp("before", streamPlaylist);
+    facilitator.settle.mockResolvedValue({
+      success: false,
+      errorReason: "insufficient_funds",
+      transaction: "",
+      network: "base-sepolia",
+    });
+
+    const response = await request(app)
+      .get("/stream/abc.m3u8")
+      .set("X-PAYMENT", PAYMENT);
+
+    expect(response.status).toBe(402);
+    expect(response.body.error).toBe("insufficient_funds");
+    expect(response.headers["x-receipt-token"]).toBeUndefined();
+    expect(events).toEqual([]);
+  });
+
+  it("should settle after the response in settle-after mode", async () => {
+    const { app, events } = createPaidApp("after", streamPlaylist);
+
+    const response = await request(app)
+      .get("/stream/abc.m3u8")
+      .set("X-PAYMENT", PAYMENT);
+
+    expect(response.status).toBe(200);
+    expect(response.text).toBe("#EXTM3U\n#EXT-X-ENDLIST\n");
+    expect(events).toEqual(["handler", "settle"]);
+    expect(response.headers["x-payment-response"]).toBeDefined();
+    expect(response.headers["x-receipt-token"]).toBeDefined();
+  });
+
+  it("should not settle error responses in settle-after mode", async () => {
+    const { app, events } = createPaidApp("after", (_req, res) => {
+      res.status(502).json({ error: "Upstream error" });
+    });
+
+    const response = await request(app)
+      .get("/stream/abc.m3u8")
+      .set("X-PAYMENT", PAYMENT);
+
+    expect(response.status).toBe(502);
+    expect(events).toEqual(["handler"]);
+    expect(response.headers["x-receipt-token"]).toBeUndefined();
+  });
+
+  it("should roll the response back when settling after it fails", async () => {
+    const { app } = createPaidApp("after", streamPlaylist);
+    facilitator.settle.mockRejectedValue(new Error("facilitator down"));
+
+    const response = await request(app)
+      .get("/stream/abc.m3u8")
+      .set("X-PAYMENT", PAYMENT);
+
+    expect(response.status).toBe(402);
+    expect(response.headers["content-type"]).toMatch(/application\/json/);
+    expect(response.text).not.toContain("#EXTM3U");
+    expect(response.headers["x-receipt-token"]).toBeUndefined();
+  });
+
+  it("should settle and stream bodies larger than the buffer limit", async () => {
+    const events: string[] = [];
+    const { app } = createPaidApp("after", streamFile(events), 2048);
+    facilitator.settle.mockImplementation(async () => {
+      events.push("settle");
+      return {
+        success: true,
+        transaction: `0x${"33".repeat(32)}`,
+        network: "base-sepolia",
+        payer: PAYER,
+      };
+    });
+
+    const response = await request(app)
+      .get("/stream/abc.mp4")
+      .set("X-PAYMENT", PAYMENT)
+      .buffer(true)
+      .parse((res, callback) => {
+        const chunks: Buffer[] = [];
+        res.on("data", (chunk: Buffer) => chunks.push(chunk));
+        res.on("end", () => callback(null, Buffer.concat(chunks)));
+      });
+
+    expect(response.status).toBe(200);
+    expect((response.body as Buffer).length).toBe(8 * 1024);
+    // Settled while the handler was still writing the body
+    expect(events).toEqual(["settle", "body_end"]);
+    expect(response.headers["x-receipt-token"]).toBeDefined();
+  });
+
+  it("should drop a body larger than the buffer limit when settlement fails", async () => {
+    const events: string[] = [];
+    const { app } = createPaidApp("after", streamFile(events), 2048);
+    facilitator.settle.mockRejectedValue(new Error("facilitator down"));
+
+    await expect(
+      request(app).get("/stream/abc.mp4").set("X-PAYMENT", PAYMENT)
+    ).rejects.toThrow();
+    expect(facilitator.settle).toHaveBeenCalledTimes(1);
+  });
+});
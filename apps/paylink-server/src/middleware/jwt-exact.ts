@@ -1,9 +1,12 @@
 import { Request, Response, NextFunction } from "express";
+import { randomUUID } from "node:crypto";
 import { Address, getAddress } from "viem";
 import { exact } from "x402/schemes";
-import jwt from "jsonwebtoken";
 import { config } from "../config.js";
-import { PaymentReceipt } from "@x402-video-paylink/payment-receipt";
+import {
+  ProofCarryingReceipt,
+  hashPaymentRequirements,
+} from "@x402-video-paylink/payment-receipt";
 import {
   computeRoutePatterns,
   findMatchingPaymentRequirements,
@@ -23,96 +26,211 @@ import {
 } from "x402/types";
 import { useFacilitator } from "x402/verify";
 import { PAYWALL_TEMPLATE } from "@x402-video-paylink/paywall/gen/template";
+import type { PaymentOverrides } from "../types.js";
+import {
+  getBearerToken,
+  getPlaybackTokenParam,
+  getStreamId,
+  isReceiptRevoked,
+  issueReceiptToken,
+  receiptCoversUrl,
+  verifyPlaybackToken,
+  verifyReceiptToken,
+} from "../receipts.js";
+import {
+  createRevocationStore,
+  type RevocationStore,
+} from "../stores/revocation-store.js";
+import { logger } from "../logger.js";
 
 interface JWTPaymentOptions {
   merchantAddress: string;
   routes: RoutesConfig;
   facilitator?: FacilitatorConfig;
+  // Per-request overrides (e.g. per-stream pricing); null skips payment
+  resolvePaymentOptions?: (req: Request) => Promise<PaymentOverrides | null>;
+  // Defaults to the store configured by REVOCATION_STORE
+  revocationStore?: RevocationStore;
+  // Refuse receipts whose requirements hash (receipt.req) doesn't match the
+  // route's current requirements; defaults to STRICT_RECEIPTS
+  strictRequirements?: boolean;
+  // Settle "before" or "after" the response; defaults to EXACT_SETTLEMENT
+  settlement?: "before" | "after";
+  // Response bytes held back in settle-after mode before settling anyway
+  // and streaming the rest; defaults to PROGRESSIVE_RANGE_BYTES
+  maxBufferBytes?: number;
+}
+
+/**
+ * Inject the window.x402 config into our custom paywall template
+ */
+function renderPaywall(x402Config: object, customPaywallHtml?: string) {
+  return (
+    customPaywallHtml ||
+    PAYWALL_TEMPLATE.replace(
+      "</head>",
+      `<script>window.x402 = ${JSON.stringify(x402Config)};</script></head>`
+    )
+  );
+}
+
+/**
+ * Hold back the response written by the downstream handlers until
+ * flush(), or drop it with discard() (headers set since are removed too)
+ *
+ * `held` resolves with "ended" once the handler ended the response,
+ * "closed" if the client went away first, or "overflow" once more than
+ * maxBytes were written: writes then report backpressure, and flush() lets
+ * the rest of the body stream through.
+ */
+function bufferResponse(res: Response, maxBytes: number) {
+  const { write, end } = res;
+  const headers = res.getHeaders();
+  const chunks: Buffer[] = [];
+  let size = 0;
+  let ended = false;
+
+  const append = (chunk: unknown, encoding?: unknown) => {
+    if (typeof chunk === "string") {
+      chunks.push(
+        Buffer.from(chunk, (encoding as BufferEncoding | undefined) ?? "utf8")
+      );
+    } else if (chunk instanceof Uint8Array) {
+      chunks.push(Buffer.from(chunk));
+    } else {
+      return;
+    }
+    size += chunks[chunks.length - 1].length;
+  };
+  const callback = (args: unknown[]) => {
+    const cb = args.find((arg) => typeof arg === "function");
+    (cb as (() => void) | undefined)?.();
+  };
+
+  const held = new Promise<"ended" | "closed" | "overflow">((resolve) => {
+    res.write = function (chunk: unknown, ...args: unknown[]) {
+      append(chunk, typeof args[0] === "string" ? args[0] : undefined);
+      callback(args);
+      if (size > maxBytes) {
+        resolve("overflow");
+        return false;
+      }
+      return true;
+    } as typeof res.write;
+    res.end = function (...args: unknown[]) {
+      if (args.length > 0 && typeof args[0] !== "function") {
+        append(args[0], typeof args[1] === "string" ? args[1] : undefined);
+      }
+      callback(args);
+      ended = true;
+      resolve("ended");
+      return res;
+    } as typeof res.end;
+    res.once("close", () => resolve("closed"));
+  });
+
+  const restore = () => {
+    res.write = write;
+    res.end = end;
+  };
+
+  return {
+    held,
+    flush() {
+      restore();
+      let drained = true;
+      for (const chunk of chunks.splice(0)) {
+        drained = res.write(chunk);
+      }
+      if (ended) {
+        res.end();
+      } else if (drained) {
+        // Resume a handler waiting on the backpressure reported above
+        res.emit("drain");
+      }
+    },
+    discard() {
+      restore();
+      for (const name of res.getHeaderNames()) {
+        res.removeHeader(name);
+      }
+      for (const [name, value] of Object.entries(headers)) {
+        if (value !== undefined) {
+          res.setHeader(name, value);
+        }
+      }
+    },
+  };
 }
 
 /**
  * Creates a middleware that combines x402 payment verification with JWT issuance
  *
  * Flow:
+ * 0. Free live manifests → allow access (metered by the deferred scheme)
  * 1. Check for JWT in Authorization header → verify → allow access
+ *    (in strict mode, only if it was issued for the current requirements)
  * 2. No JWT → delegate to x402 payment flow (custom implementation)
- * 3. Intercept res.setHeader to detect successful settlement
- * 4. When X-PAYMENT-RESPONSE is set → issue JWT
+ * 3. Settle the verified payment and issue the JWT: before the route
+ *    handler runs (default), or after it with its response held back
+ * 4. Send X-PAYMENT-RESPONSE and X-Receipt-Token with the response
  */
 export function createJWTExactMiddleware(options: JWTPaymentOptions) {
-  const { merchantAddress, routes, facilitator } = options;
+  const { merchantAddress, routes, facilitator, resolvePaymentOptions } =
+    options;
   const { verify, settle } = useFacilitator(facilitator);
+  const revocationStore = options.revocationStore ?? createRevocationStore();
+  const strictRequirements =
+    options.strictRequirements ?? config.strictReceipts;
+  const settlement = options.settlement ?? config.exactSettlement;
+  const maxBufferBytes = options.maxBufferBytes ?? config.progressiveRangeBytes;
   const x402Version = 1;
 
   // Pre-compile route patterns to regex
   const routePatterns = computeRoutePatterns(routes);
 
-  console.log(
-    "[JWT-PAYMENT] Creating middleware with routes:",
-    JSON.stringify(routes)
-  );
+  logger.debug("payment.middleware_created", {
+    scheme: "exact",
+    routes: Object.keys(routes),
+  });
 
   return async (req: Request, res: Response, next: NextFunction) => {
-    console.log(`[JWT-PAYMENT] ${req.method} ${req.path}`);
-
-    // 1. Check for existing JWT
-    const authHeader = req.header("Authorization");
-    console.log(
-      `[JWT-PAYMENT] Authorization header:`,
-      authHeader ? "present" : "missing"
-    );
-
-    if (authHeader?.startsWith("Bearer ")) {
-      const token = authHeader.substring(7);
-      try {
-        const receipt = jwt.verify(token, config.jwtSecret) as PaymentReceipt;
-
-        // Build current request full URL using config.baseUrl for security
-        // This prevents header injection attacks and ensures consistency with JWT issuance
-        const currentUrl = `${config.baseUrl}${req.path}`;
-        console.log(`[JWT-PAYMENT] Current URL: ${currentUrl}`);
-        console.log(`[JWT-PAYMENT] JWT scopes:`, receipt.scope);
-
-        // Check if current URL matches any scope pattern
-        const hasMatchingScope = receipt.scope.some((scopePattern) => {
-          // Convert glob pattern to regex (e.g., /stream/xxx/* -> /stream/xxx/.*)
-          const regexPattern = scopePattern.replace(/\*/g, ".*");
-          const regex = new RegExp(`^${regexPattern}$`);
-          return regex.test(currentUrl);
-        });
-
-        if (hasMatchingScope) {
-          console.log(`[JWT-PAYMENT] JWT valid for this URL, allowing access`);
-          return next();
-        } else {
-          console.log(
-            `[JWT-PAYMENT] JWT scope doesn't match this URL, requiring new payment`
-          );
-        }
-      } catch (err) {
-        // JWT invalid, fall through to payment flow
-        console.error("[JWT-PAYMENT] JWT verification failed:", err);
-      }
-    }
-
-    // 2. Find matching route
+    // 1. Find matching route
     const matchingRoute = findMatchingRoute(
       routePatterns,
       req.path,
       req.method.toUpperCase()
     );
-    console.log(
-      `[JWT-PAYMENT] Matching route:`,
-      matchingRoute ? "found" : "NOT FOUND"
-    );
     if (!matchingRoute) {
-      console.log(
-        `[JWT-PAYMENT] No matching route, passing to next middleware`
-      );
+      logger.debug("payment.skipped", { scheme: "exact", reason: "no_route" });
       return next();
     }
 
-    const { price, network, config: routeConfig = {} } = matchingRoute.config;
+    // Per-request overrides (e.g. per-stream price and payTo); failing to
+    // resolve them must not serve the route for free
+    let overrides: PaymentOverrides | null;
+    try {
+      overrides = resolvePaymentOptions ? await resolvePaymentOptions(req) : {};
+    } catch (err) {
+      logger.error("payment.unavailable", {
+        scheme: "exact",
+        path: req.path,
+        error: err,
+      });
+      res.status(503).json({ error: "Payment service unavailable" });
+      return;
+    }
+    if (overrides === null) {
+      logger.debug("payment.skipped", {
+        scheme: "exact",
+        reason: "nothing_to_pay",
+      });
+      return next();
+    }
+
+    const { network, config: routeConfig = {} } = matchingRoute.config;
+    const price = overrides.price ?? matchingRoute.config.price;
+    const payTo = overrides.payTo ?? merchantAddress;
     const {
       description,
       mimeType,
@@ -124,16 +242,55 @@ export function createJWTExactMiddleware(options: JWTPaymentOptions) {
       discoverable,
     } = routeConfig;
 
-    // 3. Build payment requirements
+    const userAgent = req.header("User-Agent") || "";
+    const acceptHeader = req.header("Accept") || "";
+    const isWebBrowser =
+      acceptHeader.includes("text/html") && userAgent.includes("Mozilla");
+
+    // window.x402 config of the paywall page
+    const paywallConfig = {
+      streamUrl: req.path, // Just the path, VideoPlayer will add baseUrl
+      merchantAddress: payTo,
+      amount: price,
+      title: overrides.title,
+      description: overrides.description,
+      network: config.network,
+      testnet: config.network === "base-sepolia",
+      cdpClientKey: process.env.CDP_API_KEY || "",
+      appName: "X402 Video",
+      appLogo: undefined,
+      currentUrl: req.originalUrl,
+      // Live playlists also need a voucher (time-based metering)
+      live: overrides.live,
+    };
+
+    // Free live manifest: viewing is only metered by the deferred scheme
+    if (overrides.live && Number(price) === 0) {
+      if (isWebBrowser) {
+        // Paywall connects the wallet, then plays without a receipt
+        res.send(
+          renderPaywall(
+            { ...paywallConfig, paymentRequirements: [], free: true },
+            customPaywallHtml
+          )
+        );
+        return;
+      }
+      logger.debug("payment.skipped", { scheme: "exact", reason: "free_live" });
+      return next();
+    }
+
+    // 2. Build payment requirements
     const atomicAmountForAsset = processPriceToAtomicAmount(price, network);
     if ("error" in atomicAmountForAsset) {
       throw new Error(atomicAmountForAsset.error);
     }
     const { maxAmountRequired, asset } = atomicAmountForAsset;
 
+    // config.baseUrl (not the Host header) keeps the requirements, and the
+    // receipt's requirements hash, independent of the request headers
     const resourceUrl: Resource =
-      resource ||
-      (`${req.protocol}://${req.headers.host}${req.path}` as Resource);
+      resource || (`${config.baseUrl}${req.path}` as Resource);
 
     let paymentRequirements: PaymentRequirements[] = [];
 
@@ -143,9 +300,9 @@ export function createJWTExactMiddleware(options: JWTPaymentOptions) {
         network,
         maxAmountRequired,
         resource: resourceUrl,
-        description: description ?? "",
-        mimeType: mimeType ?? "",
-        payTo: getAddress(merchantAddress as Address),
+        description: overrides.description ?? description ?? "",
+        mimeType: overrides.mimeType ?? mimeType ?? "",
+        payTo: getAddress(payTo as Address),
         maxTimeoutSeconds: maxTimeoutSeconds ?? 60,
         asset: getAddress(asset.address),
         outputSchema: {
@@ -163,40 +320,71 @@ export function createJWTExactMiddleware(options: JWTPaymentOptions) {
       throw new Error(`Unsupported network: ${network}`);
     }
 
+    // 3. Check for existing JWT (native players carry a playback token in
+    // the URL instead)
+    const token = getBearerToken(req);
+    const playbackToken = token ? undefined : getPlaybackTokenParam(req);
+    if (token || playbackToken) {
+      try {
+        const receipt = token
+          ? await verifyReceiptToken(token)
+          : await verifyPlaybackToken(playbackToken!);
+
+        // Build current request full URL using config.baseUrl for security
+        // This prevents header injection attacks and ensures consistency with JWT issuance
+        const currentUrl = `${config.baseUrl}${req.path}`;
+        // Check if current URL matches any scope pattern
+        if (!receiptCoversUrl(receipt, currentUrl)) {
+          logger.info("receipt.rejected", {
+            reason: "scope",
+            jti: receipt.jti,
+            scope: receipt.scope,
+          });
+        } else if (
+          await isReceiptRevoked(
+            revocationStore,
+            receipt,
+            getStreamId(req.path)
+          )
+        ) {
+          logger.info("receipt.rejected", {
+            reason: "revoked",
+            jti: receipt.jti,
+          });
+        } else if (
+          strictRequirements &&
+          receipt.req !== hashPaymentRequirements(paymentRequirements[0])
+        ) {
+          // Price, payTo or asset changed since the receipt was issued
+          logger.info("receipt.rejected", {
+            reason: "requirements",
+            jti: receipt.jti,
+          });
+        } else {
+          logger.debug("receipt.accepted", {
+            jti: receipt.jti,
+            playbackToken: !token,
+          });
+          return next();
+        }
+      } catch (err) {
+        // JWT invalid, fall through to payment flow
+        logger.warn("receipt.invalid", { error: err });
+      }
+    }
+
     // 4. Check if payment header exists
     const payment = req.header("X-PAYMENT");
-    const userAgent = req.header("User-Agent") || "";
-    const acceptHeader = req.header("Accept") || "";
-    const isWebBrowser =
-      acceptHeader.includes("text/html") && userAgent.includes("Mozilla");
 
     if (!payment) {
       if (isWebBrowser) {
         // Build x402 config with paymentRequirements
         const x402Config = {
-          streamUrl: req.path, // Just the path, VideoPlayer will add baseUrl
-          merchantAddress: config.merchantAddress,
-          amount: config.streamPriceUSDC,
-          network: config.network,
-          testnet: config.network === "base-sepolia",
-          cdpClientKey: process.env.CDP_API_KEY || "",
-          appName: "X402 Video",
-          appLogo: undefined,
+          ...paywallConfig,
           paymentRequirements: toJsonSafe(paymentRequirements),
-          currentUrl: req.originalUrl,
         };
 
-        // Inject window.x402 config into our custom paywall template
-        const html =
-          customPaywallHtml ||
-          PAYWALL_TEMPLATE.replace(
-            "</head>",
-            `<script>window.x402 = ${JSON.stringify(
-              x402Config
-            )};</script></head>`
-          );
-
-        res.status(402).send(html);
+        res.status(402).send(renderPaywall(x402Config, customPaywallHtml));
         return;
       }
       res.status(402).json({
@@ -210,18 +398,20 @@ export function createJWTExactMiddleware(options: JWTPaymentOptions) {
     // 5. Decode and verify payment
     let decodedPayment: PaymentPayload;
     let payerAddress: string;
+    let paidAmount: string;
     try {
       decodedPayment = exact.evm.decodePayment(payment);
       decodedPayment.x402Version = x402Version;
 
-      // Extract payer address
+      // Extract payer address and authorized amount
       if ("authorization" in decodedPayment.payload) {
         payerAddress = decodedPayment.payload.authorization.from;
+        paidAmount = decodedPayment.payload.authorization.value;
       } else {
         throw new Error("SVM payment not supported yet");
       }
     } catch (error) {
-      console.error(error);
+      logger.warn("payment.invalid", { scheme: "exact", error });
       res.status(402).json({
         x402Version,
         error: error || "Invalid or malformed payment header",
@@ -249,6 +439,11 @@ export function createJWTExactMiddleware(options: JWTPaymentOptions) {
         selectedPaymentRequirements
       );
       if (!response.isValid) {
+        logger.warn("payment.rejected", {
+          scheme: "exact",
+          reason: response.invalidReason,
+          payer: response.payer,
+        });
         res.status(402).json({
           x402Version,
           error: response.invalidReason,
@@ -258,7 +453,7 @@ export function createJWTExactMiddleware(options: JWTPaymentOptions) {
         return;
       }
     } catch (error) {
-      console.error(error);
+      logger.error("payment.verify_failed", { scheme: "exact", error });
       res.status(402).json({
         x402Version,
         error,
@@ -266,45 +461,33 @@ export function createJWTExactMiddleware(options: JWTPaymentOptions) {
       });
       return;
     }
+    logger.info("payment.verified", {
+      scheme: "exact",
+      payer: payerAddress,
+      amount: paidAmount,
+      network: selectedPaymentRequirements.network,
+    });
+
+    // 6. Settle the payment and issue the receipt JWT, returning the
+    // response headers carrying both
+    const settlePayment = async (): Promise<
+      { headers: Record<string, string> } | { error: unknown }
+    > => {
+      try {
+        const settleResponse = await settle(
+          decodedPayment,
+          selectedPaymentRequirements
+        );
+        if (!settleResponse.success) {
+          logger.warn("payment.settlement_failed", {
+            scheme: "exact",
+            reason: settleResponse.errorReason,
+          });
+          return { error: settleResponse.errorReason };
+        }
 
-    // 6. Intercept res.end to settle payment after response
-    type EndArgs =
-      | [cb?: () => void]
-      | [chunk: any, cb?: () => void]
-      | [chunk: any, encoding: BufferEncoding, cb?: () => void];
-
-    const originalEnd = res.end.bind(res);
-    let endArgs: EndArgs | null = null;
-
-    res.end = function (...args: EndArgs) {
-      endArgs = args;
-      return res;
-    };
-
-    // 7. Proceed to next middleware/route handler
-    next();
-
-    // 8. If response is error, don't settle
-    if (res.statusCode >= 400) {
-      res.end = originalEnd;
-      if (endArgs) {
-        originalEnd(...(endArgs as Parameters<typeof res.end>));
-      }
-      return;
-    }
-
-    // 9. Settle payment and issue JWT
-    try {
-      const settleResponse = await settle(
-        decodedPayment,
-        selectedPaymentRequirements
-      );
-      const responseHeader = settleResponseHeader(settleResponse);
-      res.setHeader("X-PAYMENT-RESPONSE", responseHeader);
-
-      if (settleResponse.success) {
         // Extract stream ID from request path
-        const streamId = req.path.match(/\/stream\/([^\/\.]+)/)?.[1];
+        const streamId = getStreamId(req.path);
 
         // Build scope with full URL pattern (no trailing slash before *)
         // This matches both /stream/{id}.m3u8 and /stream/{id}/segment.ts
@@ -312,45 +495,115 @@ export function createJWTExactMiddleware(options: JWTPaymentOptions) {
           ? `${config.baseUrl}/stream/${streamId}*`
           : `${config.baseUrl}${req.path}`;
 
-        // Issue JWT on successful settlement
-        const receipt: PaymentReceipt = {
+        // Issue JWT on successful settlement, carrying the settlement
+        // transaction so it can be audited onchain (verifyReceiptSettlement)
+        const receipt: ProofCarryingReceipt = {
           iss: config.baseUrl,
           sub: payerAddress.toLowerCase(),
-          req: req.originalUrl || req.url,
+          req: hashPaymentRequirements(selectedPaymentRequirements),
           iat: Math.floor(Date.now() / 1000),
+          jti: randomUUID(),
           scope: [scopePattern],
+          txHash: settleResponse.transaction,
+          network: settleResponse.network,
+          asset: selectedPaymentRequirements.asset,
+          payTo: selectedPaymentRequirements.payTo,
+          amount: paidAmount,
         };
 
-        console.log(`[JWT-PAYMENT] Issuing JWT with scope: ${scopePattern}`);
-
-        const token = jwt.sign(receipt, config.jwtSecret, {
-          expiresIn: config.jwtTTL,
+        logger.info("payment.settled", {
+          scheme: "exact",
+          payer: receipt.sub,
+          amount: paidAmount,
+          txHash: receipt.txHash,
+          jti: receipt.jti,
+          scope: scopePattern,
         });
 
-        res.setHeader("X-Receipt-Token", token);
-      } else {
-        res.status(402).json({
-          x402Version,
-          error: settleResponse.errorReason,
-          accepts: toJsonSafe(paymentRequirements),
-        });
-        return;
+        return {
+          headers: {
+            "X-PAYMENT-RESPONSE": settleResponseHeader(settleResponse),
+            "X-Receipt-Token": await issueReceiptToken(receipt),
+          },
+        };
+      } catch (error) {
+        logger.error("payment.settlement_failed", { scheme: "exact", error });
+        return { error };
       }
-    } catch (error) {
-      console.error(error);
-      if (!res.headersSent) {
+    };
+
+    // Deferred middlewares on the same route let this purchase through
+    res.locals.paymentScheme = "exact";
+
+    // 7a. Settle before the handler runs, so the headers go out with the
+    // body (the buyer keeps the receipt if the origin fails afterwards)
+    if (settlement !== "after") {
+      const settled = await settlePayment();
+      if ("error" in settled) {
         res.status(402).json({
           x402Version,
-          error,
+          error: settled.error,
           accepts: toJsonSafe(paymentRequirements),
         });
         return;
       }
-    } finally {
-      res.end = originalEnd;
-      if (endArgs) {
-        originalEnd(...(endArgs as Parameters<typeof res.end>));
+      for (const [name, value] of Object.entries(settled.headers)) {
+        res.setHeader(name, value);
+      }
+      next();
+      return;
+    }
+
+    // 7b. Settle once the handler produced a success response, held back
+    // until then; error responses and clients going away aren't charged,
+    // and a failed settlement replaces the response with a 402. Bodies
+    // larger than maxBufferBytes (e.g. an origin ignoring Range) are
+    // settled once the limit is reached, then streamed
+    const buffered = bufferResponse(res, maxBufferBytes);
+    next();
+    const held = await buffered.held;
+    if (held === "closed" || res.destroyed) {
+      logger.info("payment.unsettled", {
+        scheme: "exact",
+        reason: "client_closed",
+      });
+      buffered.discard();
+      return;
+    }
+    if (res.statusCode >= 400) {
+      logger.info("payment.unsettled", {
+        scheme: "exact",
+        reason: "error_response",
+        status: res.statusCode,
+      });
+      buffered.flush();
+      return;
+    }
+
+    if (held === "overflow") {
+      logger.debug("payment.buffer_exceeded", {
+        scheme: "exact",
+        maxBytes: maxBufferBytes,
+      });
+    }
+    const settled = await settlePayment();
+    if ("error" in settled) {
+      buffered.discard();
+      if (held === "overflow") {
+        // The handler is still writing the body: drop the connection
+        res.destroy();
+        return;
       }
+      res.status(402).json({
+        x402Version,
+        error: settled.error,
+        accepts: toJsonSafe(paymentRequirements),
+      });
+      return;
+    }
+    for (const [name, value] of Object.entries(settled.headers)) {
+      res.setHeader(name, value);
     }
+    buffered.flush();
   };
 }
@@ -0,0 +1,114 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { generateKeyPairSync } from "node:crypto";
+import { config } from "./config.js";
+import {
+  ReceiptKeyRing,
+  createReceiptKeyRing,
+  generateReceiptKey,
+  parseSigningKeys,
+} from "./receipt-keys.js";
+
+describe("ReceiptKeyRing", () => {
+  it("should rotate generated keys and keep the previous one for the TTL", () => {
+    let now = 1_700_000_000;
+    const ring = new ReceiptKeyRing({
+      rotationSeconds: 3600,
+      ttlSeconds: 900,
+      now: () => now,
+    });
+
+    const first = ring.getSigningKey();
+    expect(ring.getSigningKey().kid).toBe(first.kid);
+
+    now += 3600;
+    const second = ring.getSigningKey();
+    expect(second.kid).not.toBe(first.kid);
+    // Receipts signed by the first key are still valid
+    expect(ring.getVerificationKey(first.kid)).toBeDefined();
+    expect(ring.getJwks().keys.map((key) => key.kid)).toEqual([
+      first.kid,
+      second.kid,
+    ]);
+
+    now += 901;
+    expect(ring.getVerificationKey(first.kid)).toBeUndefined();
+    expect(ring.getJwks().keys.map((key) => key.kid)).toEqual([second.kid]);
+  });
+
+  it("should publish scheduled keys before they start signing", () => {
+    let now = 1_700_000_000;
+    const current = generateReceiptKey("ES256", now - 60);
+    const next = generateReceiptKey("EdDSA", now + 600);
+    const ring = new ReceiptKeyRing({
+      keys: [next, current],
+      ttlSeconds: 900,
+      now: () => now,
+    });
+
+    expect(ring.getSigningKey().kid).toBe(current.kid);
+    expect(ring.getJwks().keys).toMatchObject([
+      { kid: current.kid, alg: "ES256", kty: "EC", use: "sig" },
+      { kid: next.kid, alg: "EdDSA", kty: "OKP", use: "sig" },
+    ]);
+
+    now += 600;
+    expect(ring.getSigningKey().kid).toBe(next.kid);
+    expect(ring.getVerificationKey(current.kid)).toBeDefined();
+  });
+
+  it("should not publish private key material", () => {
+    const ring = new ReceiptKeyRing();
+    const [jwk] = ring.getJwks().keys;
+
+    expect(jwk).not.toHaveProperty("d");
+  });
+});
+
+describe("createReceiptKeyRing", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should keep retired keys until the last playback token expires", () => {
+    vi.useFakeTimers({ now: 1_700_000_000_000 });
+    const ring = createReceiptKeyRing();
+    const first = ring.getSigningKey();
+
+    vi.advanceTimersByTime(config.jwtRotationSeconds * 1000);
+    expect(ring.getSigningKey().kid).not.toBe(first.kid);
+
+    // Receipts signed by the first key expired, allowance tokens bound to a
+    // voucher may not have
+    vi.advanceTimersByTime(config.voucherExpirySeconds * 1000);
+    expect(config.voucherExpirySeconds).toBeGreaterThan(config.jwtTTL);
+    expect(ring.getVerificationKey(first.kid)).toBeDefined();
+
+    vi.advanceTimersByTime(61 * 1000);
+    expect(ring.getVerificationKey(first.kid)).toBeUndefined();
+  });
+});
+
+describe("parseSigningKeys", () => {
+  it("should parse private JWKs from JWT_SIGNING_KEYS", () => {
+    const { privateKey } = generateKeyPairSync("ed25519");
+    const jwk = privateKey.export({ format: "jwk" });
+
+    const [key] = parseSigningKeys(
+      JSON.stringify([{ ...jwk, kid: "2025-01", activeFrom: 1700000000 }])
+    );
+
+    expect(key).toMatchObject({
+      kid: "2025-01",
+      alg: "EdDSA",
+      activeFrom: 1700000000,
+    });
+    expect(key.publicKey.type).toBe("public");
+  });
+
+  it("should reject keys without kid", () => {
+    const { privateKey } = generateKeyPairSync("ec", { namedCurve: "P-256" });
+    const jwk = privateKey.export({ format: "jwk" });
+
+    expect(() => parseSigningKeys(JSON.stringify([jwk]))).toThrow(/kid/);
+  });
+});
@@ -0,0 +1,204 @@
+import {
+  createPrivateKey,
+  createPublicKey,
+  generateKeyPairSync,
+  randomUUID,
+  type JsonWebKey,
+  type KeyObject,
+} from "node:crypto";
+import { config } from "./config.js";
+import { logger } from "./logger.js";
+
+export type ReceiptAlgorithm = "ES256" | "EdDSA";
+
+// Asymmetric key signing receipt JWTs, identified by kid
+export interface ReceiptKey {
+  kid: string;
+  alg: ReceiptAlgorithm;
+  privateKey: KeyObject;
+  publicKey: KeyObject;
+  activeFrom: number; // Unix timestamp the key starts signing
+}
+
+// Public key as published on /.well-known/jwks.json
+export type PublicJwk = JsonWebKey & {
+  kid: string;
+  alg: ReceiptAlgorithm;
+  use: "sig";
+};
+
+// Private JWK as configured in JWT_SIGNING_KEYS
+type SigningJwk = JsonWebKey & {
+  kid: string;
+  alg?: ReceiptAlgorithm;
+  activeFrom?: number;
+};
+
+interface ReceiptKeyRingOptions {
+  // Configured keys; when empty, keys are generated and rotated in memory
+  keys?: ReceiptKey[];
+  alg?: ReceiptAlgorithm;
+  rotationSeconds?: number;
+  // Longest lifetime of a token signed by the ring: retired keys verify
+  // until their last token expires
+  ttlSeconds?: number;
+  now?: () => number;
+}
+
+/**
+ * Generate a new signing key for the algorithm
+ */
+export function generateReceiptKey(
+  alg: ReceiptAlgorithm,
+  activeFrom: number
+): ReceiptKey {
+  const { privateKey, publicKey } =
+    alg === "EdDSA"
+      ? generateKeyPairSync("ed25519")
+      : generateKeyPairSync("ec", { namedCurve: "P-256" });
+  return { kid: randomUUID(), alg, privateKey, publicKey, activeFrom };
+}
+
+/**
+ * Parse JWT_SIGNING_KEYS (JSON array of private JWKs)
+ */
+export function parseSigningKeys(json: string): ReceiptKey[] {
+  const jwks = JSON.parse(json) as SigningJwk[];
+  if (!Array.isArray(jwks) || jwks.length === 0) {
+    throw new Error("JWT_SIGNING_KEYS must be a non-empty JSON array");
+  }
+
+  return jwks.map(({ kid, alg, activeFrom, ...jwk }) => {
+    if (!kid) {
+      throw new Error("JWT_SIGNING_KEYS entries require a kid");
+    }
+    const keyAlg = alg ?? (jwk.kty === "OKP" ? "EdDSA" : "ES256");
+    if (keyAlg !== "ES256" && keyAlg !== "EdDSA") {
+      throw new Error(`Unsupported receipt key algorithm: ${keyAlg}`);
+    }
+    const privateKey = createPrivateKey({ key: jwk, format: "jwk" });
+    return {
+      kid,
+      alg: keyAlg,
+      privateKey,
+      publicKey: createPublicKey(privateKey),
+      activeFrom: activeFrom ?? 0,
+    };
+  });
+}
+
+/**
+ * Receipt signing keys with a rotation schedule
+ *
+ * - The newest key whose activeFrom has passed signs new receipts
+ * - Keys scheduled for the future are already published in the JWKS,
+ *   so verifiers can cache them before they start signing
+ * - A key replaced by a newer one keeps verifying for ttlSeconds (until
+ *   the last receipt or playback token it signed expires), then is dropped
+ */
+export class ReceiptKeyRing {
+  private keys: ReceiptKey[];
+  private readonly generated: boolean;
+  private readonly alg: ReceiptAlgorithm;
+  private readonly rotationSeconds: number;
+  private readonly ttlSeconds: number;
+  private readonly now: () => number;
+
+  constructor(options: ReceiptKeyRingOptions = {}) {
+    this.generated = !options.keys?.length;
+    this.keys = [...(options.keys ?? [])].sort(
+      (a, b) => a.activeFrom - b.activeFrom
+    );
+    this.alg = options.alg ?? "ES256";
+    this.rotationSeconds = options.rotationSeconds ?? 86400;
+    this.ttlSeconds = options.ttlSeconds ?? 900;
+    this.now = options.now ?? (() => Math.floor(Date.now() / 1000));
+  }
+
+  /**
+   * Get the key signing new receipts (rotates generated keys when due)
+   */
+  getSigningKey(): ReceiptKey {
+    this.rotate();
+    const now = this.now();
+    const active = this.keys.filter((key) => key.activeFrom <= now);
+    if (active.length === 0) {
+      throw new Error("No active receipt signing key");
+    }
+    return active[active.length - 1];
+  }
+
+  /**
+   * Get a key by kid for verification (undefined if unknown or retired)
+   */
+  getVerificationKey(kid: string): ReceiptKey | undefined {
+    this.rotate();
+    return this.keys.find((key) => key.kid === kid);
+  }
+
+  /**
+   * Public keys of all keys that may have signed unexpired receipts
+   */
+  getJwks(): { keys: PublicJwk[] } {
+    this.rotate();
+    return {
+      keys: this.keys.map((key) => ({
+        ...key.publicKey.export({ format: "jwk" }),
+        kid: key.kid,
+        alg: key.alg,
+        use: "sig",
+      })),
+    };
+  }
+
+  private rotate() {
+    const now = this.now();
+
+    if (this.generated) {
+      const latest = this.keys[this.keys.length - 1];
+      if (!latest || now - latest.activeFrom >= this.rotationSeconds) {
+        this.keys.push(generateReceiptKey(this.alg, now));
+        logger.info("receipt_keys.rotated", { alg: this.alg });
+      }
+    }
+
+    // Drop keys whose successor has been signing for longer than the TTL
+    this.keys = this.keys.filter((key, i) => {
+      const successor = this.keys
+        .slice(i + 1)
+        .find((next) => next.activeFrom > key.activeFrom);
+      return !successor || now - successor.activeFrom <= this.ttlSeconds;
+    });
+  }
+}
+
+/**
+ * Longest lifetime of a token signed now (seconds): receipts last
+ * config.jwtTTL, playback and allowance tokens last until their voucher
+ * expires, which can outlive receipts (voucher timestamps may run 60s ahead)
+ */
+export function getMaxTokenLifetime(): number {
+  return Math.max(config.jwtTTL, config.voucherExpirySeconds + 60);
+}
+
+/**
+ * Create the receipt key ring from JWT_SIGNING_KEYS, or generated keys
+ */
+export function createReceiptKeyRing(): ReceiptKeyRing {
+  const keys = config.jwtSigningKeys
+    ? parseSigningKeys(config.jwtSigningKeys)
+    : undefined;
+  if (!keys) {
+    // Receipts then don't survive restarts or verify across instances
+    logger.warn("receipt_keys.generated", {
+      message: "JWT_SIGNING_KEYS not set, generating keys in memory",
+    });
+  }
+
+  return new ReceiptKeyRing({
+    keys,
+    alg: config.jwtAlgorithm,
+    rotationSeconds: config.jwtRotationSeconds,
+    ttlSeconds: getMaxTokenLifetime(),
+  });
+}
@@ -0,0 +1,198 @@
+import { Request } from "express";
+import { SignJWT, jwtVerify, type JWTVerifyGetKey } from "jose";
+import { PaymentReceipt } from "@x402-video-paylink/payment-receipt";
+import { config } from "./config.js";
+import { logger } from "./logger.js";
+import { createReceiptKeyRing } from "./receipt-keys.js";
+import type { RevocationStore } from "./stores/revocation-store.js";
+
+// Keys signing receipts, published on /.well-known/jwks.json
+export const receiptKeys = createReceiptKeyRing();
+
+// Query parameter carrying playback tokens in rewritten URLs
+export const PLAYBACK_TOKEN_PARAM = "x402_token";
+
+/**
+ * Receipt bound to a deferred voucher, for native players (Safari HLS,
+ * AirPlay) that can't send Authorization or X-PAYMENT headers: it travels
+ * in the URL and stands for the voucher the paywall page keeps aggregating
+ */
+export interface PlaybackToken extends PaymentReceipt {
+  vid: string; // Voucher id
+  // Voucher is a prepaid allowance held by the server (external players),
+  // metered without aggregations until its value runs out
+  allowance?: boolean;
+}
+
+// Resolve the verification key from the token's kid (or legacy HS256 secret)
+const getVerificationKey: JWTVerifyGetKey = (header) => {
+  if (header.alg === "HS256" && config.jwtSecret) {
+    return new TextEncoder().encode(config.jwtSecret);
+  }
+
+  const key = header.kid && receiptKeys.getVerificationKey(header.kid);
+  if (!key || key.alg !== header.alg) {
+    throw new Error(`Unknown receipt key: ${header.kid}`);
+  }
+  return key.publicKey;
+};
+
+/**
+ * Extract the wrapped stream id from a /stream/{id}.{ext} or
+ * /stream/{id}/{...} path
+ */
+export function getStreamId(path: string): string | undefined {
+  return path.match(/\/stream\/([^\/\.]+)/)?.[1];
+}
+
+/**
+ * Get the Bearer token from the Authorization header, if any
+ */
+export function getBearerToken(req: Request): string | undefined {
+  const authHeader = req.header("Authorization");
+  return authHeader?.startsWith("Bearer ")
+    ? authHeader.substring(7)
+    : undefined;
+}
+
+/**
+ * Get the playback token from the x402_token query parameter, if any
+ */
+export function getPlaybackTokenParam(req: Request): string | undefined {
+  const token = req.query[PLAYBACK_TOKEN_PARAM];
+  return typeof token === "string" ? token : undefined;
+}
+
+/**
+ * Verify a receipt JWT (throws if the signature or expiry is invalid)
+ */
+export async function verifyReceiptToken(
+  token: string
+): Promise<PaymentReceipt> {
+  const { payload } = await jwtVerify(token, getVerificationKey, {
+    algorithms: ["ES256", "EdDSA", ...(config.jwtSecret ? ["HS256"] : [])],
+  });
+  return payload as unknown as PaymentReceipt;
+}
+
+/**
+ * Sign a receipt JWT valid for config.jwtTTL with the active key
+ */
+export async function issueReceiptToken(
+  receipt: PaymentReceipt
+): Promise<string> {
+  const key = receiptKeys.getSigningKey();
+  return new SignJWT({ ...receipt })
+    .setProtectedHeader({ alg: key.alg, kid: key.kid, typ: "JWT" })
+    .setExpirationTime(receipt.iat + config.jwtTTL)
+    .sign(key.privateKey);
+}
+
+/**
+ * Verify a playback token (throws if invalid or not bound to a voucher, so
+ * plain receipts are never accepted from URLs)
+ */
+export async function verifyPlaybackToken(
+  token: string
+): Promise<PlaybackToken> {
+  const receipt = await verifyReceiptToken(token);
+  if (typeof (receipt as PlaybackToken).vid !== "string") {
+    throw new Error("Not a playback token");
+  }
+  return receipt as PlaybackToken;
+}
+
+/**
+ * Sign a playback token for a receipt and voucher, expiring at expiresAt
+ * (unix timestamp)
+ */
+export async function issuePlaybackToken(
+  receipt: PaymentReceipt,
+  voucherId: string,
+  expiresAt: number,
+  options: { allowance?: boolean } = {}
+): Promise<string> {
+  const key = receiptKeys.getSigningKey();
+  // Expiry of the receipt it was derived from is replaced
+  const claims: Record<string, unknown> = { ...receipt, vid: voucherId };
+  if (options.allowance) {
+    claims.allowance = true;
+  }
+  delete claims.exp;
+  return new SignJWT(claims)
+    .setProtectedHeader({ alg: key.alg, kid: key.kid, typ: "JWT" })
+    .setExpirationTime(expiresAt)
+    .sign(key.privateKey);
+}
+
+/**
+ * Check if a URL matches any scope pattern of the receipt
+ */
+export function receiptCoversUrl(
+  receipt: PaymentReceipt,
+  url: string
+): boolean {
+  return receipt.scope.some((scopePattern) => {
+    // Convert glob pattern to regex (e.g., /stream/xxx/* -> /stream/xxx/.*)
+    const regexPattern = scopePattern.replace(/\*/g, ".*");
+    const regex = new RegExp(`^${regexPattern}$`);
+    return regex.test(url);
+  });
+}
+
+/**
+ * Check the receipt against revocations by jti, payer (sub) and stream id
+ * (a receipt is revoked if it was issued at or before the revocation)
+ */
+export async function isReceiptRevoked(
+  revocationStore: RevocationStore,
+  receipt: PaymentReceipt,
+  streamId?: string
+): Promise<boolean> {
+  const revocations = await Promise.all([
+    receipt.jti ? revocationStore.get("jti", receipt.jti) : undefined,
+    revocationStore.get("sub", receipt.sub.toLowerCase()),
+    streamId ? revocationStore.get("stream", streamId) : undefined,
+  ]);
+  return revocations.some(
+    (revocation) => revocation && receipt.iat <= revocation.revokedAt
+  );
+}
+
+/**
+ * Verify the request's Bearer receipt (or x402_token playback token) and
+ * check it covers the request path.
+ * Returns null if the token is missing, invalid, out of scope or revoked.
+ * Revocation store failures are rethrown, for callers to answer 503.
+ */
+export async function getRequestReceipt(
+  req: Request,
+  revocationStore: RevocationStore
+): Promise<PaymentReceipt | PlaybackToken | null> {
+  const token = getBearerToken(req);
+  const playbackToken = token ? undefined : getPlaybackTokenParam(req);
+  if (!token && !playbackToken) {
+    return null;
+  }
+
+  let receipt: PaymentReceipt | PlaybackToken;
+  try {
+    receipt = token
+      ? await verifyReceiptToken(token)
+      : await verifyPlaybackToken(playbackToken!);
+  } catch (err) {
+    logger.warn("receipt.invalid", { error: err });
+    return null;
+  }
+  // Use config.baseUrl (not the Host header) to match the issued scope
+  if (!receiptCoversUrl(receipt, `${config.baseUrl}${req.path}`)) {
+    return null;
+  }
+  if (
+    await isReceiptRevoked(revocationStore, receipt, getStreamId(req.path))
+  ) {
+    logger.info("receipt.rejected", { reason: "revoked", jti: receipt.jti });
+    return null;
+  }
+  return receipt;
+}
@@ -0,0 +1,149 @@
+import { describe, it, expect } from "vitest";
+import { readFileSync } from "fs";
+import { DOMParser, type Element } from "@xmldom/xmldom";
+import { DashRewriter } from "./dash.js";
+import type { RewriteContext } from "./proxy.js";
+
+const fixture = (name: string) =>
+  readFileSync(new URL(`./fixtures/${name}`, import.meta.url), "utf8");
+
+const PROXY = "https://paylink.example/stream/abc/";
+const context: RewriteContext = {
+  streamId: "abc",
+  baseUrl: "https://paylink.example",
+  originUrl: "https://origin.example.com/live/event/manifest.mpd",
+};
+
+const proxied = (url: string) => PROXY + encodeURIComponent(url);
+
+function rewrite(name: string, overrides: Partial<RewriteContext> = {}) {
+  const output = new DashRewriter().rewrite(fixture(name), {
+    ...context,
+    ...overrides,
+  });
+  const mpd = new DOMParser().parseFromString(
+    output,
+    "application/xml"
+  ).documentElement!;
+  const find = (tag: string, predicate: (element: Element) => boolean) =>
+    Array.from(mpd.getElementsByTagName(tag)).find(predicate)!;
+  return { output, mpd, find };
+}
+
+describe("DashRewriter", () => {
+  it("should rewrite MPD-level BaseURL, Location and PatchLocation", () => {
+    const { mpd } = rewrite("multi-period.mpd");
+    const text = (tag: string) => mpd.getElementsByTagName(tag)[0].textContent;
+
+    expect(text("BaseURL")).toBe(`${PROXY}content/`);
+    expect(text("Location")).toBe(`${PROXY}live.mpd?session=42`);
+    expect(text("PatchLocation")).toBe(`${PROXY}patch.mpp`);
+  });
+
+  it("should resolve SegmentTemplate against the BaseURL and keep template identifiers", () => {
+    const { find } = rewrite("multi-period.mpd");
+    const template = find(
+      "SegmentTemplate",
+      (element) => element.parentNode?.nodeName === "AdaptationSet"
+    );
+
+    expect(template.getAttribute("media")).toBe(
+      `${PROXY}content/$RepresentationID$/seg-$Number%05d$.m4s`
+    );
+    expect(template.getAttribute("initialization")).toBe(
+      `${PROXY}content/$RepresentationID$/init.mp4`
+    );
+    // Other attributes and the timeline are untouched
+    expect(template.getAttribute("timescale")).toBe("90000");
+    expect(template.getElementsByTagName("S")[0].getAttribute("r")).toBe("9");
+  });
+
+  it("should copy inherited templates into Representations with their own BaseURL", () => {
+    const { find } = rewrite("multi-period.mpd");
+    const hd = find(
+      "Representation",
+      (element) => element.getAttribute("id") === "v1080"
+    );
+    const sd = find(
+      "Representation",
+      (element) => element.getAttribute("id") === "v720"
+    );
+
+    const template = hd.getElementsByTagName("SegmentTemplate")[0];
+    expect(template.getAttribute("media")).toBe(
+      PROXY +
+        encodeURIComponent("https://cdn.example.net/hd/") +
+        "$RepresentationID$" +
+        encodeURIComponent("/seg-") +
+        "$Number%05d$.m4s"
+    );
+    expect(template.getElementsByTagName("S")).toHaveLength(1);
+    // Representations sharing the AdaptationSet BaseURL keep inheriting
+    expect(sd.getElementsByTagName("SegmentTemplate")).toHaveLength(0);
+  });
+
+  it("should rewrite SegmentList and SegmentBase URLs per level", () => {
+    const { find } = rewrite("multi-period.mpd");
+
+    expect(
+      find("Initialization", (element) =>
+        element.hasAttribute("sourceURL")
+      ).getAttribute("sourceURL")
+    ).toBe(`${PROXY}content/audio/init.mp4`);
+    const segment = find(
+      "SegmentURL",
+      (element) => element.getAttribute("mediaRange") === "0-9999"
+    );
+    expect(segment.getAttribute("media")).toBe(`${PROXY}content/audio/a2.m4s`);
+    expect(segment.getAttribute("index")).toBe(`${PROXY}content/audio/a2.sidx`);
+
+    // Period BaseURL escapes the origin directory
+    const single = find(
+      "Representation",
+      (element) => element.getAttribute("id") === "single"
+    );
+    expect(single.getElementsByTagName("BaseURL")[0].textContent).toBe(
+      proxied("https://origin.example.com/live/p1/movie.mp4")
+    );
+    expect(
+      single
+        .getElementsByTagName("RepresentationIndex")[0]
+        .getAttribute("sourceURL")
+    ).toBe(proxied("https://origin.example.com/live/p1/movie.sidx"));
+  });
+
+  it("should proxy remote periods but keep resolve-to-zero", () => {
+    const { find } = rewrite("multi-period.mpd");
+    const href = (id: string) =>
+      find(
+        "Period",
+        (element) => element.getAttribute("id") === id
+      ).getAttributeNS("http://www.w3.org/1999/xlink", "href");
+
+    expect(href("ad")).toBe(proxied("https://ads.example.org/period.xml"));
+    expect(href("zero")).toBe("urn:mpeg:dash:resolve-to-zero:2013");
+  });
+
+  it("should carry the playback token in every proxied URL", () => {
+    const { mpd, find } = rewrite("multi-period.mpd", {
+      playbackToken: "a.b.c",
+    });
+    const template = find(
+      "SegmentTemplate",
+      (element) => element.parentNode?.nodeName === "AdaptationSet"
+    );
+
+    expect(mpd.getElementsByTagName("Location")[0].textContent).toBe(
+      `${PROXY}live.mpd?session=42&x402_token=a.b.c`
+    );
+    expect(template.getAttribute("media")).toBe(
+      `${PROXY}content/$RepresentationID$/seg-$Number%05d$.m4s?x402_token=a.b.c`
+    );
+  });
+
+  it("should reject documents that aren't an MPD", () => {
+    expect(() => new DashRewriter().rewrite("<html></html>", context)).toThrow(
+      /MPD/
+    );
+  });
+});
@@ -0,0 +1,231 @@
+import { DOMParser, XMLSerializer, type Element } from "@xmldom/xmldom";
+import {
+  toProxyUrl,
+  type ManifestRewriter,
+  type RewriteContext,
+} from "./proxy.js";
+
+const XLINK_NS = "http://www.w3.org/1999/xlink";
+
+// Levels that may carry BaseURL and segment information, outermost first
+const HIERARCHY = ["MPD", "Period", "AdaptationSet", "Representation"];
+
+// Segment information elements, inherited down to the Representation
+const SEGMENT_INFO = ["SegmentBase", "SegmentList", "SegmentTemplate"];
+
+// URL attributes of segment information elements and their children
+const URL_ATTRIBUTES: Record<string, string[]> = {
+  SegmentTemplate: ["media", "initialization", "index", "bitstreamSwitching"],
+  SegmentURL: ["media", "index"],
+  Initialization: ["sourceURL"],
+  RepresentationIndex: ["sourceURL"],
+  BitstreamSwitching: ["sourceURL"],
+};
+
+// $RepresentationID$, $Number%05d$, $$ ...
+const TEMPLATE_IDENTIFIER = /\$[A-Za-z]*(?:%0\d+[dxX])?\$/g;
+
+// Segment information defined at some level, with the BaseURL in effect there
+interface InheritedSegmentInfo {
+  element: Element;
+  bases: string[];
+}
+
+function childElements(parent: Element, localName?: string): Element[] {
+  const children: Element[] = [];
+  for (let node = parent.firstChild; node; node = node.nextSibling) {
+    const element = node as Element;
+    if (
+      node.nodeType === node.ELEMENT_NODE &&
+      (!localName || element.localName === localName)
+    ) {
+      children.push(element);
+    }
+  }
+  return children;
+}
+
+/**
+ * Merge segment information of a level into the one inherited from above
+ * (attributes of the inner level win, its children replace the outer ones)
+ */
+function mergeSegmentInfo(outer: Element, inner: Element): Element {
+  const merged = outer.cloneNode(true) as Element;
+  for (let i = 0; i < inner.attributes.length; i++) {
+    const attribute = inner.attributes[i];
+    merged.setAttribute(attribute.name, attribute.value);
+  }
+  if (childElements(inner).length > 0) {
+    for (const child of childElements(merged)) merged.removeChild(child);
+    for (const child of childElements(inner)) {
+      merged.appendChild(child.cloneNode(true));
+    }
+  }
+  return merged;
+}
+
+/**
+ * DASH MPD rewriter
+ *
+ * Parses the MPD and resolves every URL against the BaseURL in effect at
+ * its level (MPD > Period > AdaptationSet > Representation), then points
+ * it at the proxy:
+ * - BaseURL, Location and PatchLocation contents
+ * - xlink:href of remote elements (Period, AdaptationSet, ...)
+ * - SegmentTemplate media/initialization/index/bitstreamSwitching,
+ *   keeping $...$ identifiers intact
+ * - SegmentURL@media/@index and Initialization, RepresentationIndex,
+ *   BitstreamSwitching @sourceURL
+ *
+ * Segment information inherited by a Representation with a different
+ * BaseURL is copied into the Representation and resolved there, since
+ * the player would resolve it against the Representation's BaseURL.
+ */
+export class DashRewriter implements ManifestRewriter {
+  rewrite(content: string, context: RewriteContext): string {
+    const document = new DOMParser().parseFromString(
+      content,
+      "application/xml"
+    );
+    const mpd = document.documentElement;
+    if (!mpd || mpd.localName !== "MPD") {
+      throw new Error("Not a DASH MPD");
+    }
+
+    const manifestUrl = context.manifestUrl ?? context.originUrl;
+    for (const tag of ["Location", "PatchLocation"]) {
+      for (const element of childElements(mpd, tag)) {
+        element.textContent = this.proxy(
+          element.textContent ?? "",
+          manifestUrl,
+          context
+        );
+      }
+    }
+
+    this.rewriteLevel(mpd, 0, manifestUrl, new Map(), context);
+    this.rewriteXlinks(mpd, manifestUrl, context);
+
+    return new XMLSerializer().serializeToString(document);
+  }
+
+  private rewriteLevel(
+    element: Element,
+    depth: number,
+    parentBase: string,
+    inherited: Map<string, InheritedSegmentInfo>,
+    context: RewriteContext
+  ): void {
+    // BaseURL of this level (the first one is used for resolution,
+    // alternatives are rewritten too)
+    const baseUrls = childElements(element, "BaseURL");
+    let base = parentBase;
+    baseUrls.forEach((baseUrl, i) => {
+      const resolved = this.resolve(baseUrl.textContent ?? "", parentBase);
+      if (i === 0 && resolved) base = resolved;
+      baseUrl.textContent = this.proxy(
+        baseUrl.textContent ?? "",
+        parentBase,
+        context
+      );
+    });
+
+    const segmentInfo = new Map(inherited);
+    for (const tag of SEGMENT_INFO) {
+      const own = childElements(element, tag)[0];
+      const outer = inherited.get(tag);
+
+      if (HIERARCHY[depth] === "Representation" && outer) {
+        // Inherited from a level whose BaseURL differs: resolve here
+        if (own || outer.bases.some((outerBase) => outerBase !== base)) {
+          const merged = own
+            ? mergeSegmentInfo(outer.element, own)
+            : (outer.element.cloneNode(true) as Element);
+          if (own) element.removeChild(own);
+          this.rewriteSegmentInfo(merged, base, context);
+          element.appendChild(merged);
+        }
+        continue;
+      }
+
+      if (!own) continue;
+      // Keep the original (unresolved) element for inner levels
+      segmentInfo.set(tag, {
+        element: outer
+          ? mergeSegmentInfo(outer.element, own)
+          : (own.cloneNode(true) as Element),
+        bases: [...(outer?.bases ?? []), base],
+      });
+      this.rewriteSegmentInfo(own, base, context);
+    }
+
+    const childTag = HIERARCHY[depth + 1];
+    if (!childTag) return;
+    for (const child of childElements(element, childTag)) {
+      this.rewriteLevel(child, depth + 1, base, segmentInfo, context);
+    }
+  }
+
+  private rewriteSegmentInfo(
+    element: Element,
+    base: string,
+    context: RewriteContext
+  ): void {
+    for (const attribute of URL_ATTRIBUTES[element.localName ?? ""] ?? []) {
+      const value = element.getAttribute(attribute);
+      // bitstreamSwitching is a boolean on some elements
+      if (!value || value === "true" || value === "false") continue;
+      element.setAttribute(attribute, this.proxy(value, base, context));
+    }
+    for (const child of childElements(element)) {
+      this.rewriteSegmentInfo(child, base, context);
+    }
+  }
+
+  // xlink:href of remote elements, resolved against the manifest URL
+  private rewriteXlinks(
+    element: Element,
+    manifestUrl: string,
+    context: RewriteContext
+  ): void {
+    const href = element.getAttributeNS(XLINK_NS, "href");
+    if (href) {
+      element.setAttributeNS(
+        XLINK_NS,
+        element.getAttributeNodeNS(XLINK_NS, "href")?.name ?? "xlink:href",
+        this.proxy(href, manifestUrl, context)
+      );
+    }
+    for (const child of childElements(element)) {
+      this.rewriteXlinks(child, manifestUrl, context);
+    }
+  }
+
+  // Resolve a URL (possibly templated) against a base, undefined if invalid
+  private resolve(url: string, base: string): string | undefined {
+    try {
+      return new URL(url.trim(), base).href;
+    } catch {
+      return undefined;
+    }
+  }
+
+  // Resolve and proxy a URL, keeping $...$ identifiers as-is
+  private proxy(url: string, base: string, context: RewriteContext): string {
+    const identifiers: string[] = [];
+    const masked = url.replace(TEMPLATE_IDENTIFIER, (identifier) => {
+      identifiers.push(identifier);
+      return `x402tpl${identifiers.length - 1}x`;
+    });
+
+    const resolved = this.resolve(masked, base);
+    if (!resolved) return url;
+    const proxied = toProxyUrl(resolved, context);
+    if (proxied === resolved) return url;
+
+    return proxied.replace(
+      /x402tpl(\d+)x/g,
+      (_match, i) => identifiers[Number(i)]
+    );
+  }
+}
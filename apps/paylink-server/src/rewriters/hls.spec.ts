@@ -0,0 +1,145 @@
+import { describe, it, expect } from "vitest";
+import { readFileSync } from "fs";
+import { HlsRewriter, parseAttributeList } from "./hls.js";
+import type { RewriteContext } from "./proxy.js";
+
+const fixture = (name: string) =>
+  readFileSync(new URL(`./fixtures/${name}`, import.meta.url), "utf8");
+
+const PROXY = "https://paylink.example/stream/abc/";
+const context: RewriteContext = {
+  streamId: "abc",
+  baseUrl: "https://paylink.example",
+  originUrl: "https://origin.example.com/hls/event/master.m3u8",
+};
+
+const proxied = (url: string) => PROXY + encodeURIComponent(url);
+
+// Every http(s) URI of the output must go through the proxy
+function expectAllProxied(output: string) {
+  for (const line of output.split(/\r?\n/)) {
+    if (line === "") continue;
+    if (!line.startsWith("#")) {
+      expect(line.startsWith(PROXY)).toBe(true);
+      continue;
+    }
+    const uri = parseAttributeList(line.slice(line.indexOf(":") + 1)).find(
+      (attribute) => attribute.name === "URI"
+    );
+    if (uri && !uri.value.startsWith("skd:")) {
+      expect(uri.value.startsWith(PROXY)).toBe(true);
+    }
+  }
+}
+
+// Lines without URIs must be kept byte-for-byte
+function expectUntouchedTags(input: string, output: string) {
+  const inputLines = input.split("\n");
+  const outputLines = output.split("\n");
+  expect(outputLines).toHaveLength(inputLines.length);
+  inputLines.forEach((line, i) => {
+    if (line.startsWith("#") && !line.includes('URI="')) {
+      expect(outputLines[i]).toBe(line);
+    }
+  });
+}
+
+describe("HlsRewriter", () => {
+  const rewriter = new HlsRewriter();
+
+  it("should proxy variants, media groups, I-frame playlists and session data of a master playlist", () => {
+    const input = fixture("master.m3u8");
+    const output = rewriter.rewrite(input, context);
+
+    expectAllProxied(output);
+    expectUntouchedTags(input, output);
+    expect(output).toContain(`URI="${PROXY}audio/en/prog_index.m3u8"`);
+    expect(output).toContain(`URI="${PROXY}metadata/title.json"`);
+    expect(output).toContain(`URI="${PROXY}v9/iframe_index.m3u8"`);
+    // Relative URIs outside the origin directory are proxied as absolute URLs
+    expect(output).toContain(
+      `URI="${proxied("https://origin.example.com/hls/subtitles/en/prog_index.m3u8")}"`
+    );
+    expect(output).toContain(
+      `URI="${proxied("https://keys.example.net/session.key?token=abc")}",IV=0x9c7db8778570d05c3177c349fd9236aa`
+    );
+    expect(output).toContain(`\n${PROXY}v5/prog_index.m3u8\n`);
+    expect(output).toContain(
+      `\n${proxied("https://cdn2.example.net/hls/v9/prog_index.m3u8?sig=xyz")}\n`
+    );
+    // FairPlay key URIs are not fetched over http, keep them as-is
+    expect(output).toContain('URI="skd://key-server/asset-42"');
+  });
+
+  it("should proxy keys and init segments of a media playlist relative to its own URL", () => {
+    const input = fixture("media-fmp4.m3u8");
+    const output = rewriter.rewrite(input, {
+      ...context,
+      manifestUrl: "https://origin.example.com/hls/event/v5/prog_index.m3u8",
+    });
+
+    expectAllProxied(output);
+    expectUntouchedTags(input, output);
+    expect(output).toContain(
+      `#EXT-X-MAP:URI="${PROXY}v5/init.mp4",BYTERANGE="719@0"\r\n`
+    );
+    expect(output).toContain(
+      `#EXT-X-KEY:METHOD=AES-128,URI="${PROXY}keys/key1.bin",IV=0x00000000000000000000000000000001\r\n`
+    );
+    expect(output).toContain(
+      `#EXT-X-BYTERANGE:1234567@719\r\n${PROXY}v5/main.mp4\r\n`
+    );
+    expect(output).toContain(
+      `#EXT-X-MAP:URI="${proxied("https://ads.example.org/creative/init.mp4")}"\r\n`
+    );
+  });
+
+  it("should carry the playback token in every proxied URI", () => {
+    const output = rewriter.rewrite(fixture("media-fmp4.m3u8"), {
+      ...context,
+      manifestUrl: "https://origin.example.com/hls/event/v5/prog_index.m3u8",
+      playbackToken: "a.b.c",
+    });
+
+    expect(output).toContain(
+      `#EXT-X-MAP:URI="${PROXY}v5/init.mp4?x402_token=a.b.c",BYTERANGE="719@0"\r\n`
+    );
+    expect(output).toContain(
+      `#EXT-X-BYTERANGE:1234567@719\r\n${PROXY}v5/main.mp4?x402_token=a.b.c\r\n`
+    );
+    expect(output).toContain(
+      `${proxied("https://ads.example.org/creative/seg0.m4s")}?x402_token=a.b.c\r\n`
+    );
+  });
+
+  it("should proxy LL-HLS parts, preload hints and rendition reports", () => {
+    const input = fixture("llhls.m3u8");
+    const output = rewriter.rewrite(input, {
+      ...context,
+      manifestUrl: "https://origin.example.com/hls/event/2M/live.m3u8",
+    });
+
+    expectAllProxied(output);
+    expectUntouchedTags(input, output);
+    expect(output).toContain(
+      `#EXT-X-PART:DURATION=0.33334,URI="${PROXY}2M/fileSequence267.mp4",BYTERANGE="20000@0"`
+    );
+    expect(output).toContain(
+      `#EXT-X-PRELOAD-HINT:TYPE=PART,URI="${PROXY}2M/filePart268.0.mp4"`
+    );
+    expect(output).toContain(
+      `#EXT-X-RENDITION-REPORT:URI="${PROXY}1M/waitForMSN.php",LAST-MSN=267,LAST-PART=0`
+    );
+  });
+});
+
+describe("parseAttributeList", () => {
+  it("should keep commas inside quoted strings", () => {
+    expect(
+      parseAttributeList('BANDWIDTH=1280000,CODECS="avc1.4d401f,mp4a.40.2"')
+    ).toEqual([
+      { name: "BANDWIDTH", value: "1280000", quoted: false },
+      { name: "CODECS", value: "avc1.4d401f,mp4a.40.2", quoted: true },
+    ]);
+  });
+});
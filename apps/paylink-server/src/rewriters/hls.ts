@@ -0,0 +1,89 @@
+import {
+  toProxyUrl,
+  type ManifestRewriter,
+  type RewriteContext,
+} from "./proxy.js";
+
+// One attribute of an attribute list (NAME=VALUE or NAME="VALUE")
+export interface HlsAttribute {
+  name: string;
+  value: string;
+  quoted: boolean;
+}
+
+/**
+ * Parse an HLS attribute list (RFC 8216 section 4.2)
+ */
+export function parseAttributeList(text: string): HlsAttribute[] {
+  const attributes: HlsAttribute[] = [];
+  const pattern = /([A-Z0-9-]+)=(?:"([^"]*)"|([^,]*))(?:,|$)/g;
+
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text)) !== null && match[0] !== "") {
+    const quoted = match[2] !== undefined;
+    attributes.push({
+      name: match[1],
+      value: quoted ? match[2] : match[3],
+      quoted,
+    });
+  }
+  return attributes;
+}
+
+/**
+ * Serialize an attribute list back to NAME=VALUE,NAME="VALUE"
+ */
+export function serializeAttributeList(attributes: HlsAttribute[]): string {
+  return attributes
+    .map(({ name, value, quoted }) =>
+      quoted ? `${name}="${value}"` : `${name}=${value}`
+    )
+    .join(",");
+}
+
+/**
+ * HLS playlist rewriter
+ *
+ * Proxies URI lines (segments, variant playlists) and the URI attribute of
+ * every tag carrying one (EXT-X-KEY, EXT-X-SESSION-KEY, EXT-X-MAP,
+ * EXT-X-MEDIA, EXT-X-I-FRAME-STREAM-INF, EXT-X-SESSION-DATA, EXT-X-PART,
+ * EXT-X-PRELOAD-HINT, EXT-X-RENDITION-REPORT, ...). Every other line,
+ * including EXT-X-BYTERANGE and line endings, is kept byte-for-byte.
+ */
+export class HlsRewriter implements ManifestRewriter {
+  rewrite(content: string, context: RewriteContext): string {
+    return content
+      .split("\n")
+      .map((line) => {
+        const cr = line.endsWith("\r") ? "\r" : "";
+        const text = cr ? line.slice(0, -1) : line;
+        return this.rewriteLine(text, context) + cr;
+      })
+      .join("\n");
+  }
+
+  private rewriteLine(line: string, context: RewriteContext): string {
+    const trimmed = line.trim();
+    if (trimmed === "") return line;
+
+    // URI line (segment, variant playlist)
+    if (!trimmed.startsWith("#")) {
+      return toProxyUrl(trimmed, context);
+    }
+
+    // Tag with an attribute list (comments and other tags are left as-is)
+    const tag = trimmed.match(/^(#EXT[A-Z0-9-]*):(.*)$/);
+    if (!tag) return line;
+
+    const attributes = parseAttributeList(tag[2]);
+    const uri = attributes.find(
+      (attribute) => attribute.name === "URI" && attribute.quoted
+    );
+    if (!uri) return line;
+
+    const rewritten = toProxyUrl(uri.value, context);
+    if (rewritten === uri.value) return line;
+    uri.value = rewritten;
+    return `${tag[1]}:${serializeAttributeList(attributes)}`;
+  }
+}
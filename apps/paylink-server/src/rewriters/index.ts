@@ -0,0 +1,22 @@
+import { DashRewriter } from "./dash.js";
+import { HlsRewriter } from "./hls.js";
+import type { ManifestRewriter } from "./proxy.js";
+
+export { DashRewriter } from "./dash.js";
+export { HlsRewriter } from "./hls.js";
+export {
+  getOriginBase,
+  toProxyUrl,
+  type ManifestRewriter,
+  type RewriteContext,
+} from "./proxy.js";
+
+// Factory for creating rewriters
+export function getManifestRewriter(kind: "hls" | "dash"): ManifestRewriter {
+  switch (kind) {
+    case "hls":
+      return new HlsRewriter();
+    case "dash":
+      return new DashRewriter();
+  }
+}
@@ -0,0 +1,59 @@
+// Where a manifest comes from and where its URIs should point to
+export interface RewriteContext {
+  streamId: string;
+  baseUrl: string; // Public base URL of this server
+  originUrl: string; // Wrapped stream origin URL
+  manifestUrl?: string; // Origin URL of the manifest being rewritten (default: originUrl)
+  playbackToken?: string; // Appended as x402_token to proxied URLs (native players)
+}
+
+// Common interface for manifest rewriters
+export interface ManifestRewriter {
+  rewrite(content: string, context: RewriteContext): string;
+}
+
+/**
+ * Origin directory that /stream/{id}/{path} paths are relative to
+ */
+export function getOriginBase(originUrl: string): string {
+  const url = new URL(originUrl);
+  return (
+    url.origin + url.pathname.substring(0, url.pathname.lastIndexOf("/") + 1)
+  );
+}
+
+/**
+ * Rewrite a manifest URI to go through /stream/{id}/...
+ *
+ * - Relative URIs are resolved against the manifest they appear in
+ * - URIs under the origin directory become /stream/{id}/{relative path}
+ * - Other http(s) URIs are URL-encoded as a single path segment
+ * - Non-http URIs (data:, skd:, ...) are left untouched
+ * - Proxied URIs carry the playback token, if any, so native players keep
+ *   paying for everything the manifest references
+ */
+export function toProxyUrl(uri: string, context: RewriteContext): string {
+  const trimmed = uri.trim();
+  if (trimmed === "") return uri;
+
+  let resolved: URL;
+  try {
+    resolved = new URL(trimmed, context.manifestUrl ?? context.originUrl);
+  } catch {
+    return uri;
+  }
+  if (resolved.protocol !== "http:" && resolved.protocol !== "https:") {
+    return uri;
+  }
+
+  const proxyBase = `${context.baseUrl}/stream/${context.streamId}/`;
+  const originBase = getOriginBase(context.originUrl);
+  const proxied = resolved.href.startsWith(originBase)
+    ? proxyBase + resolved.href.substring(originBase.length)
+    : proxyBase + encodeURIComponent(resolved.href);
+  if (!context.playbackToken) return proxied;
+
+  // Same parameter as receipts.ts PLAYBACK_TOKEN_PARAM
+  const token = `x402_token=${encodeURIComponent(context.playbackToken)}`;
+  return `${proxied}${proxied.includes("?") ? "&" : "?"}${token}`;
+}
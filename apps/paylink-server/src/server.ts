@@ -1,8 +1,32 @@
 import "dotenv/config";
-import { app } from "./app.js";
+import { createWalletClient, http, type Hex } from "viem";
+import { privateKeyToAccount } from "viem/accounts";
+import { base, baseSepolia } from "viem/chains";
+import { app, deliveryLedger, voucherStore } from "./app.js";
 import { config } from "./config.js";
+import { logger } from "./logger.js";
+import { createVoucherSettlement } from "./settlement/voucher-settlement.js";
 
 app.listen(config.port, () => {
-  console.log(`X402 Proxy Server is running on port ${config.port}`);
-  console.log(`Base URL: ${config.baseUrl}`);
+  logger.info("server.started", {
+    port: config.port,
+    baseUrl: config.baseUrl,
+  });
 });
+
+// Periodically redeem accumulated deferred vouchers onchain
+if (config.escrowAddress && config.settlementPrivateKey) {
+  const walletClient = createWalletClient({
+    account: privateKeyToAccount(config.settlementPrivateKey as Hex),
+    chain: config.network === "base-sepolia" ? baseSepolia : base,
+    transport: http(config.rpcUrl),
+  });
+
+  createVoucherSettlement({
+    voucherStore,
+    deliveryLedger,
+    walletClient,
+    escrowAddress: config.escrowAddress as Hex,
+    idleSeconds: config.settlementIdleSeconds,
+  }).start(config.settlementIntervalSeconds);
+}
@@ -0,0 +1,241 @@
+import { describe, it, expect } from "vitest";
+import {
+  createWalletClient,
+  custom,
+  decodeFunctionData,
+  parseTransaction,
+  type Hex,
+} from "viem";
+import { privateKeyToAccount } from "viem/accounts";
+import { baseSepolia } from "viem/chains";
+import {
+  DEFERRED_ESCROW_ABI,
+  type VoucherState,
+} from "@x402-video-paylink/deferred";
+import { InMemoryVoucherStore } from "../stores/voucher-store.js";
+import { InMemoryDeliveryLedger } from "../stores/delivery-ledger.js";
+import { createVoucherSettlement } from "./voucher-settlement.js";
+
+const ESCROW = "0x00000000000000000000000000000000000e5c40" as const;
+const TX_HASH = `0x${"ab".repeat(32)}` as Hex;
+
+// Mocked JSON-RPC transport standing in for a local chain
+function mockChain(receiptStatus: "0x1" | "0x0" = "0x1") {
+  const sent: Hex[] = [];
+  const receipts = { status: receiptStatus };
+  const transport = custom({
+    async request({ method, params }: { method: string; params?: any }) {
+      switch (method) {
+        case "eth_chainId":
+          return `0x${baseSepolia.id.toString(16)}`;
+        case "eth_getTransactionCount":
+          return "0x0";
+        case "eth_estimateGas":
+          return "0x5208";
+        case "eth_maxPriorityFeePerGas":
+          return "0x1";
+        case "eth_gasPrice":
+          return "0x1";
+        case "eth_getBlockByNumber":
+          return { number: "0x1", baseFeePerGas: "0x1", timestamp: "0x0" };
+        case "eth_blockNumber":
+          return "0x2";
+        case "eth_sendRawTransaction":
+          sent.push(params[0]);
+          return TX_HASH;
+        case "eth_getTransactionReceipt":
+          return {
+            transactionHash: TX_HASH,
+            blockHash: `0x${"cd".repeat(32)}`,
+            blockNumber: "0x1",
+            status: receipts.status,
+            logs: [],
+            cumulativeGasUsed: "0x5208",
+            gasUsed: "0x5208",
+            effectiveGasPrice: "0x1",
+            transactionIndex: "0x0",
+            type: "0x2",
+            from: "0x0000000000000000000000000000000000000001",
+            to: ESCROW,
+            logsBloom: `0x${"0".repeat(512)}`,
+            contractAddress: null,
+          };
+        default:
+          throw new Error(`Unexpected RPC method: ${method}`);
+      }
+    },
+  });
+  return { transport, sent, receipts };
+}
+
+function voucherState(id: string, timestamp: number): VoucherState {
+  return {
+    voucher: {
+      id,
+      resource: "stream-1",
+      seller: "0x0000000000000000000000000000000000000001",
+      buyer: "0x0000000000000000000000000000000000000002",
+      asset: "0x036CbD53842c5426634e7929541eC2318f3dCF7e",
+      nonce: 3,
+      valueAggregate: "40000",
+      timestamp,
+      expiry: timestamp + 3600,
+      chainId: baseSepolia.id,
+    },
+    signature: `0x${"11".repeat(65)}`,
+  };
+}
+
+function setup(
+  receiptStatus?: "0x1" | "0x0",
+  voucherStore = new InMemoryVoucherStore()
+) {
+  const { transport, sent, receipts } = mockChain(receiptStatus);
+  const deliveryLedger = new InMemoryDeliveryLedger();
+  const settlement = createVoucherSettlement({
+    voucherStore,
+    deliveryLedger,
+    walletClient: createWalletClient({
+      account: privateKeyToAccount(`0x${"01".repeat(32)}`),
+      chain: baseSepolia,
+      transport,
+    }),
+    escrowAddress: ESCROW,
+    idleSeconds: 60,
+    retrySeconds: 30,
+  });
+  return { settlement, voucherStore, deliveryLedger, sent, receipts };
+}
+
+describe("createVoucherSettlement", () => {
+  it("should redeem idle vouchers and record the tx hash", async () => {
+    const { settlement, voucherStore, sent } = setup();
+    const now = Math.floor(Date.now() / 1000);
+    await voucherStore.compareAndSet(
+      "idle",
+      null,
+      voucherState("idle", now - 120)
+    );
+    await voucherStore.compareAndSet(
+      "active",
+      null,
+      voucherState("active", now)
+    );
+
+    const results = await settlement.runOnce();
+
+    expect(results).toHaveLength(1);
+    expect(results[0].settlement).toMatchObject({
+      status: "settled",
+      txHash: TX_HASH,
+    });
+
+    // Submitted redeem(voucher, signature) to the escrow contract
+    expect(sent).toHaveLength(1);
+    const tx = parseTransaction(sent[0]);
+    expect(tx.to).toBe(ESCROW);
+    const { functionName, args } = decodeFunctionData({
+      abi: DEFERRED_ESCROW_ABI,
+      data: tx.data!,
+    });
+    expect(functionName).toBe("redeem");
+    expect(args[0].id).toBe("idle");
+    expect(args[0].valueAggregate).toBe(40000n);
+
+    expect((await voucherStore.get("idle"))?.settlement?.status).toBe(
+      "settled"
+    );
+    expect((await voucherStore.get("active"))?.settlement).toBeUndefined();
+    expect(await settlement.runOnce()).toHaveLength(0);
+  });
+
+  it("should drop the deliveries of settled vouchers", async () => {
+    const { settlement, voucherStore, deliveryLedger } = setup();
+    const now = Math.floor(Date.now() / 1000);
+    const state = voucherState("v", now - 120);
+    await voucherStore.compareAndSet("v", null, state);
+    await deliveryLedger.begin({
+      id: "d-1",
+      voucherId: "v",
+      nonce: 3,
+      resource: "stream-1",
+      path: "/stream/stream-1/segment0.ts",
+      state: "pending",
+      bytes: 0,
+      startedAt: Date.now(),
+      expiresAt: state.voucher.expiry,
+    });
+
+    await settlement.runOnce();
+
+    expect(await deliveryLedger.list("v")).toEqual([]);
+  });
+
+  it("should mark reverted redeems as failed", async () => {
+    const { settlement, voucherStore } = setup("0x0");
+    const now = Math.floor(Date.now() / 1000);
+    await voucherStore.compareAndSet("v", null, voucherState("v", now - 120));
+
+    const [result] = await settlement.runOnce();
+
+    expect(result.settlement.status).toBe("failed");
+    expect(result.settlement.txHash).toBe(TX_HASH);
+  });
+
+  it("should retry failed redeems after a backoff", async () => {
+    const { settlement, voucherStore, sent, receipts } = setup("0x0");
+    const now = Math.floor(Date.now() / 1000);
+    await voucherStore.compareAndSet("v", null, voucherState("v", now - 120));
+    await settlement.runOnce();
+
+    // Within the backoff
+    expect(await settlement.runOnce()).toHaveLength(0);
+
+    const failed = (await voucherStore.get("v"))!;
+    await voucherStore.compareAndSet(
+      "v",
+      3,
+      {
+        ...failed,
+        settlement: { ...failed.settlement!, updatedAt: Date.now() - 31000 },
+      },
+      "failed"
+    );
+    receipts.status = "0x1";
+    const [result] = await settlement.runOnce();
+
+    expect(sent).toHaveLength(2);
+    expect(result.settlement).toMatchObject({ status: "settled", attempts: 2 });
+    expect((await voucherStore.get("v"))?.settlement?.status).toBe("settled");
+  });
+
+  it("should fail when the outcome can't be recorded", async () => {
+    const store = new InMemoryVoucherStore();
+    const { settlement } = setup(undefined, store);
+    const now = Math.floor(Date.now() / 1000);
+    const state = voucherState("v", now - 120);
+    await store.compareAndSet("v", null, state);
+    const compareAndSet = store.compareAndSet.bind(store);
+    // Outcome writes (from "pending") lose the race
+    store.compareAndSet = async (id, nonce, next, expected) =>
+      expected === "pending" ? false : compareAndSet(id, nonce, next, expected);
+
+    await expect(settlement.settleVoucher(state)).rejects.toThrow(
+      "changed while recording"
+    );
+  });
+
+  it("should skip vouchers aggregated after they were picked", async () => {
+    const { settlement, voucherStore, sent } = setup();
+    const now = Math.floor(Date.now() / 1000);
+    const picked = voucherState("v", now - 120);
+    await voucherStore.compareAndSet("v", null, picked);
+    await voucherStore.compareAndSet("v", 3, {
+      ...picked,
+      voucher: { ...picked.voucher, nonce: 4 },
+    });
+
+    expect(await settlement.settleVoucher(picked)).toBeUndefined();
+    expect(sent).toHaveLength(0);
+  });
+});
@@ -0,0 +1,250 @@
+import {
+  publicActions,
+  type Account,
+  type Address,
+  type Chain,
+  type Hex,
+  type Transport,
+  type WalletClient,
+} from "viem";
+import {
+  DEFERRED_ESCROW_ABI,
+  toVoucherMessage,
+  type VoucherSettlement,
+  type VoucherState,
+} from "@x402-video-paylink/deferred";
+import type { VoucherStore } from "../stores/voucher-store.js";
+import type { DeliveryLedger } from "../stores/delivery-ledger.js";
+import { logger } from "../logger.js";
+
+interface VoucherSettlementOptions {
+  voucherStore: VoucherStore;
+  // Deliveries of settled vouchers are dropped (nothing left to refund)
+  deliveryLedger?: DeliveryLedger;
+  // Seller-side wallet paying gas for redeem transactions
+  walletClient: WalletClient<Transport, Chain, Account>;
+  escrowAddress: Address;
+  // Settle vouchers that haven't been aggregated for this many seconds
+  idleSeconds: number;
+  // Settle regardless of activity this close to voucher expiry (seconds)
+  expiryMarginSeconds?: number;
+  // Delay before retrying a failed redeem, doubled per attempt (seconds)
+  retrySeconds?: number;
+}
+
+// Longest delay between redeem attempts of a failed settlement (seconds)
+const MAX_RETRY_SECONDS = 3600;
+
+export interface SettlementResult {
+  id: string;
+  nonce: number;
+  valueAggregate: string;
+  settlement: VoucherSettlement;
+}
+
+/**
+ * Creates the settlement pipeline for accumulated deferred vouchers
+ *
+ * Flow (per due voucher):
+ * 1. Claim the latest voucher by marking it "pending" (compare-and-set on its
+ *    nonce and settlement status), which makes the middleware refuse further
+ *    aggregation on that id
+ * 2. Submit redeem(voucher, signature) to the escrow contract
+ * 3. Record the tx hash and final status ("settled" or "failed"); failed
+ *    settlements are due again after a backoff of retrySeconds, doubled per
+ *    attempt
+ */
+export function createVoucherSettlement(options: VoucherSettlementOptions) {
+  const {
+    voucherStore,
+    deliveryLedger,
+    walletClient,
+    escrowAddress,
+    idleSeconds,
+    expiryMarginSeconds = 300,
+    retrySeconds = 60,
+  } = options;
+  const client = walletClient.extend(publicActions);
+
+  let timer: NodeJS.Timeout | undefined;
+  let running = false;
+
+  function isDue(state: VoucherState, now: number): boolean {
+    const { voucher, settlement } = state;
+    if (BigInt(voucher.valueAggregate) === 0n) return false;
+    if (settlement?.status === "failed") {
+      const backoff = Math.min(
+        retrySeconds * 2 ** ((settlement.attempts ?? 1) - 1),
+        MAX_RETRY_SECONDS
+      );
+      return now - Math.floor(settlement.updatedAt / 1000) >= backoff;
+    }
+    return (
+      now - voucher.timestamp >= idleSeconds ||
+      voucher.expiry - now <= expiryMarginSeconds
+    );
+  }
+
+  /**
+   * Store the progress of a claimed ("pending") settlement; throws if the
+   * voucher was changed meanwhile, so the outcome isn't reported as stored
+   */
+  async function record(
+    state: VoucherState,
+    settlement: VoucherSettlement
+  ): Promise<SettlementResult> {
+    const { voucher } = state;
+    const recorded = await voucherStore.compareAndSet(
+      voucher.id,
+      voucher.nonce,
+      { ...state, settlement },
+      "pending"
+    );
+    if (!recorded) {
+      logger.error("settlement.record_failed", {
+        voucherId: voucher.id,
+        nonce: voucher.nonce,
+        settlement,
+      });
+      throw new Error(
+        `Settlement of voucher ${voucher.id} changed while recording ${settlement.status}`
+      );
+    }
+    return {
+      id: voucher.id,
+      nonce: voucher.nonce,
+      valueAggregate: voucher.valueAggregate,
+      settlement,
+    };
+  }
+
+  /**
+   * Redeem a single voucher (undefined if it was aggregated or claimed meanwhile)
+   */
+  async function settleVoucher(
+    state: VoucherState
+  ): Promise<SettlementResult | undefined> {
+    const { voucher } = state;
+    const attempts = (state.settlement?.attempts ?? 0) + 1;
+
+    const claimed = await voucherStore.compareAndSet(
+      voucher.id,
+      voucher.nonce,
+      {
+        ...state,
+        settlement: { status: "pending", updatedAt: Date.now(), attempts },
+      },
+      state.settlement?.status
+    );
+    if (!claimed) {
+      logger.info("settlement.skipped", { voucherId: voucher.id });
+      return undefined;
+    }
+
+    let txHash: Hex | undefined;
+    try {
+      txHash = await client.writeContract({
+        address: escrowAddress,
+        abi: DEFERRED_ESCROW_ABI,
+        functionName: "redeem",
+        args: [toVoucherMessage(voucher), state.signature as Hex],
+      });
+      await record(state, {
+        status: "pending",
+        txHash,
+        updatedAt: Date.now(),
+        attempts,
+      });
+      logger.info("settlement.submitted", {
+        voucherId: voucher.id,
+        nonce: voucher.nonce,
+        valueAggregate: voucher.valueAggregate,
+        txHash,
+      });
+
+      const receipt = await client.waitForTransactionReceipt({ hash: txHash });
+      if (receipt.status !== "success") {
+        throw new Error(`Redeem transaction reverted: ${txHash}`);
+      }
+    } catch (error) {
+      logger.error("settlement.failed", {
+        voucherId: voucher.id,
+        txHash,
+        attempts,
+        error,
+      });
+      return await record(state, {
+        status: "failed",
+        txHash,
+        updatedAt: Date.now(),
+        error: error instanceof Error ? error.message : String(error),
+        attempts,
+      });
+    }
+
+    logger.info("settlement.settled", { voucherId: voucher.id, txHash });
+    const result = await record(state, {
+      status: "settled",
+      txHash,
+      updatedAt: Date.now(),
+      attempts,
+    });
+    // Left to expire with the voucher otherwise
+    await deliveryLedger
+      ?.drop(voucher.id)
+      .catch((error) =>
+        logger.warn("delivery.drop_failed", { voucherId: voucher.id, error })
+      );
+    return result;
+  }
+
+  /**
+   * Settle every due voucher once (sequentially, to keep wallet nonces ordered)
+   */
+  async function runOnce(): Promise<SettlementResult[]> {
+    const now = Math.floor(Date.now() / 1000);
+    const due = (await voucherStore.listUnsettled()).filter((state) =>
+      isDue(state, now)
+    );
+
+    const results: SettlementResult[] = [];
+    for (const state of due) {
+      try {
+        const result = await settleVoucher(state);
+        if (result) results.push(result);
+      } catch (error) {
+        // Keep redeeming the other due vouchers
+        logger.error("settlement.voucher_failed", {
+          voucherId: state.voucher.id,
+          error,
+        });
+      }
+    }
+    return results;
+  }
+
+  function start(intervalSeconds: number) {
+    if (timer) return;
+    logger.info("settlement.started", { intervalSeconds, escrowAddress });
+
+    timer = setInterval(async () => {
+      if (running) return;
+      running = true;
+      try {
+        await runOnce();
+      } catch (error) {
+        logger.error("settlement.run_failed", { error });
+      } finally {
+        running = false;
+      }
+    }, intervalSeconds * 1000);
+    timer.unref();
+  }
+
+  function stop() {
+    clearInterval(timer);
+    timer = undefined;
+  }
+
+  return { runOnce, settleVoucher, start, stop };
+}
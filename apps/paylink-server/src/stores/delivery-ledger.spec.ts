@@ -0,0 +1,119 @@
+import { describe, it, expect, vi } from "vitest";
+import os from "os";
+import path from "path";
+import RedisMock from "ioredis-mock";
+import type { Redis } from "ioredis";
+import {
+  InMemoryDeliveryLedger,
+  RedisDeliveryLedger,
+  SqliteDeliveryLedger,
+  type DeliveryLedger,
+  type DeliveryRecord,
+} from "./delivery-ledger.js";
+
+let sequence = 0;
+const delivery = (voucherId: string, nonce = 0): DeliveryRecord => ({
+  id: `d-${++sequence}`,
+  voucherId,
+  nonce,
+  resource: "stream-1",
+  path: `/stream/stream-1/segment${sequence}.ts`,
+  state: "pending",
+  bytes: 0,
+  startedAt: Date.now() + sequence,
+  expiresAt: Math.floor(Date.now() / 1000) + 3600,
+});
+
+const ledgers: [string, () => DeliveryLedger][] = [
+  ["memory", () => new InMemoryDeliveryLedger()],
+  [
+    "sqlite",
+    () =>
+      new SqliteDeliveryLedger(
+        path.join(os.tmpdir(), `paylink-deliveries-${process.pid}.db`)
+      ),
+  ],
+  ["redis", () => new RedisDeliveryLedger(new RedisMock() as unknown as Redis)],
+];
+
+describe.each(ledgers)("DeliveryLedger (%s)", (_name, createLedger) => {
+  it("should bill pending and complete deliveries, not failed ones", async () => {
+    const ledger = createLedger();
+    const voucherId = `v-billable-${Date.now()}`;
+    const [complete, failed, pending] = [0, 0, 0].map(() =>
+      delivery(voucherId)
+    );
+
+    for (const record of [complete, failed, pending]) {
+      expect(await ledger.begin(record)).toBe(true);
+    }
+    await ledger.finish({ ...complete, state: "complete", bytes: 100 });
+    await ledger.finish({ ...failed, state: "failed", bytes: 10 });
+
+    expect(await ledger.countBillable(voucherId, 0)).toBe(2);
+    expect(await ledger.countBillable(voucherId, 1)).toBe(0);
+    expect(
+      (await ledger.list(voucherId)).map(({ id, state }) => [id, state])
+    ).toEqual([
+      [complete.id, "complete"],
+      [failed.id, "failed"],
+      [pending.id, "pending"],
+    ]);
+  });
+
+  it("should only begin within maxBillable", async () => {
+    const ledger = createLedger();
+    const voucherId = `v-refund-${Date.now()}`;
+    const failed = delivery(voucherId);
+
+    await ledger.begin(failed);
+    await ledger.finish({ ...failed, state: "failed" });
+
+    // The refunded nonce pays for one more delivery only
+    expect(await ledger.begin(delivery(voucherId), 1)).toBe(true);
+    expect(await ledger.begin(delivery(voucherId), 1)).toBe(false);
+    expect(await ledger.countBillable(voucherId, 0)).toBe(1);
+  });
+
+  it("should only finish a pending delivery once", async () => {
+    const ledger = createLedger();
+    const voucherId = `v-finish-${Date.now()}`;
+    const [failed, complete] = [delivery(voucherId), delivery(voucherId)];
+    await ledger.begin(failed);
+    await ledger.begin(complete);
+
+    for (let i = 0; i < 3; i++) {
+      await ledger.finish({ ...failed, state: "failed" });
+    }
+    await ledger.finish({ ...complete, state: "complete" });
+    await ledger.finish({ ...complete, state: "failed" });
+
+    expect(await ledger.countBillable(voucherId, 0)).toBe(1);
+    expect((await ledger.list(voucherId)).map(({ state }) => state)).toEqual([
+      "failed",
+      "complete",
+    ]);
+  });
+
+  it("should drop the deliveries of settled and expired vouchers", async () => {
+    const ledger = createLedger();
+    const settled = `v-settled-${Date.now()}`;
+    const expired = `v-expired-${Date.now()}`;
+    const expiresAt = Math.floor(Date.now() / 1000) + 60;
+    await ledger.begin(delivery(settled));
+    await ledger.begin({ ...delivery(expired), expiresAt });
+
+    await ledger.drop(settled);
+    expect(await ledger.list(settled)).toEqual([]);
+
+    vi.useFakeTimers({ toFake: ["Date"], now: (expiresAt + 120) * 1000 });
+    try {
+      // Expired records are swept as new deliveries begin
+      await ledger.begin(delivery(`${expired}-next`));
+      expect(await ledger.list(expired)).toEqual([]);
+      expect(await ledger.countBillable(expired, 0)).toBe(0);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+});
@@ -0,0 +1,326 @@
+import type Database from "better-sqlite3";
+import { Redis } from "ioredis";
+import { config } from "../config.js";
+import { openSqlite } from "./sqlite.js";
+
+// "failed" deliveries (upstream error, truncated body, error status) are
+// refunded: they don't count toward the voucher nonce's usage
+export type DeliveryState = "pending" | "complete" | "failed";
+
+// What one paid request delivered to the buyer
+export interface DeliveryRecord {
+  id: string;
+  voucherId: string;
+  nonce: number; // Voucher nonce the request was paid with
+  resource: string; // Wrapped stream ID
+  path: string;
+  state: DeliveryState;
+  status?: number; // Response status once finished
+  bytes: number; // Body bytes written to the client
+  startedAt: number; // Unix timestamp in ms
+  finishedAt?: number;
+  // Voucher expiry (unix timestamp in seconds): the record is dropped after
+  // it, the voucher can't pay for anything anymore
+  expiresAt: number;
+}
+
+/**
+ * Per-request delivery ledger (voucher.id -> DeliveryRecord[])
+ *
+ * Pending and complete deliveries are billable to the nonce that paid for
+ * them. begin() with maxBillable only records the delivery if fewer
+ * billable deliveries are recorded for its nonce, atomically, so
+ * concurrent requests can't all reuse a refunded nonce.
+ *
+ * Records are kept until their voucher expires, or is dropped once settled.
+ */
+export interface DeliveryLedger {
+  begin(delivery: DeliveryRecord, maxBillable?: number): Promise<boolean>;
+  // Store the final state of a pending delivery started with begin()
+  // (finishing it again has no effect)
+  finish(delivery: DeliveryRecord): Promise<void>;
+  countBillable(voucherId: string, nonce: number): Promise<number>;
+  list(voucherId: string): Promise<DeliveryRecord[]>;
+  // Forget a voucher's deliveries (settled, nothing left to refund)
+  drop(voucherId: string): Promise<void>;
+}
+
+// Minimum interval between sweeps of expired records (ms)
+const SWEEP_INTERVAL_MS = 60 * 1000;
+
+// In-memory ledger (lost on restart, not shared between instances)
+export class InMemoryDeliveryLedger implements DeliveryLedger {
+  private readonly deliveries = new Map<string, DeliveryRecord[]>();
+  private lastSweep = 0;
+
+  async begin(
+    delivery: DeliveryRecord,
+    maxBillable?: number
+  ): Promise<boolean> {
+    this.sweep();
+    const records = this.deliveries.get(delivery.voucherId) ?? [];
+    if (
+      maxBillable !== undefined &&
+      this.billable(records, delivery.nonce) >= maxBillable
+    ) {
+      return false;
+    }
+    records.push(delivery);
+    this.deliveries.set(delivery.voucherId, records);
+    return true;
+  }
+
+  async finish(delivery: DeliveryRecord): Promise<void> {
+    const records = this.deliveries.get(delivery.voucherId) ?? [];
+    const index = records.findIndex((record) => record.id === delivery.id);
+    if (index !== -1 && records[index].state === "pending") {
+      records[index] = delivery;
+    }
+  }
+
+  async countBillable(voucherId: string, nonce: number): Promise<number> {
+    return this.billable(this.deliveries.get(voucherId) ?? [], nonce);
+  }
+
+  async list(voucherId: string): Promise<DeliveryRecord[]> {
+    return [...(this.deliveries.get(voucherId) ?? [])];
+  }
+
+  async drop(voucherId: string): Promise<void> {
+    this.deliveries.delete(voucherId);
+  }
+
+  private billable(records: DeliveryRecord[], nonce: number): number {
+    return records.filter(
+      (record) => record.nonce === nonce && record.state !== "failed"
+    ).length;
+  }
+
+  // Drop the records of expired vouchers (all records of a voucher share
+  // its expiry)
+  private sweep() {
+    const now = Date.now();
+    if (now - this.lastSweep < SWEEP_INTERVAL_MS) return;
+    this.lastSweep = now;
+    for (const [voucherId, records] of this.deliveries) {
+      if (records[0].expiresAt * 1000 < now) {
+        this.deliveries.delete(voucherId);
+      }
+    }
+  }
+}
+
+// SQLite ledger (durable on a single host)
+export class SqliteDeliveryLedger implements DeliveryLedger {
+  private readonly db: Database.Database;
+  private lastSweep = 0;
+
+  constructor(filename: string) {
+    this.db = openSqlite(filename);
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS deliveries (
+        id TEXT PRIMARY KEY,
+        voucher_id TEXT NOT NULL,
+        nonce INTEGER NOT NULL,
+        state TEXT NOT NULL,
+        data TEXT NOT NULL,
+        started_at INTEGER NOT NULL,
+        expires_at INTEGER NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS deliveries_voucher_nonce
+        ON deliveries (voucher_id, nonce);
+      CREATE INDEX IF NOT EXISTS deliveries_expires_at
+        ON deliveries (expires_at)
+    `);
+  }
+
+  async begin(
+    delivery: DeliveryRecord,
+    maxBillable?: number
+  ): Promise<boolean> {
+    this.sweep();
+    const insert = this.db.transaction(() => {
+      if (
+        maxBillable !== undefined &&
+        this.billable(delivery.voucherId, delivery.nonce) >= maxBillable
+      ) {
+        return false;
+      }
+      this.db
+        .prepare(
+          `INSERT INTO deliveries (id, voucher_id, nonce, state, data, started_at, expires_at)
+           VALUES (?, ?, ?, ?, ?, ?, ?)`
+        )
+        .run(
+          delivery.id,
+          delivery.voucherId,
+          delivery.nonce,
+          delivery.state,
+          JSON.stringify(delivery),
+          delivery.startedAt,
+          delivery.expiresAt
+        );
+      return true;
+    });
+    return insert.immediate();
+  }
+
+  async finish(delivery: DeliveryRecord): Promise<void> {
+    this.db
+      .prepare(
+        "UPDATE deliveries SET state = ?, data = ? WHERE id = ? AND state = 'pending'"
+      )
+      .run(delivery.state, JSON.stringify(delivery), delivery.id);
+  }
+
+  async countBillable(voucherId: string, nonce: number): Promise<number> {
+    return this.billable(voucherId, nonce);
+  }
+
+  async list(voucherId: string): Promise<DeliveryRecord[]> {
+    const rows = this.db
+      .prepare(
+        "SELECT data FROM deliveries WHERE voucher_id = ? ORDER BY started_at, rowid"
+      )
+      .all(voucherId) as { data: string }[];
+    return rows.map((row) => JSON.parse(row.data) as DeliveryRecord);
+  }
+
+  async drop(voucherId: string): Promise<void> {
+    this.db
+      .prepare("DELETE FROM deliveries WHERE voucher_id = ?")
+      .run(voucherId);
+  }
+
+  private billable(voucherId: string, nonce: number): number {
+    const row = this.db
+      .prepare(
+        "SELECT COUNT(*) AS count FROM deliveries WHERE voucher_id = ? AND nonce = ? AND state != 'failed'"
+      )
+      .get(voucherId, nonce) as { count: number };
+    return row.count;
+  }
+
+  // Drop the records of expired vouchers
+  private sweep() {
+    const now = Date.now();
+    if (now - this.lastSweep < SWEEP_INTERVAL_MS) return;
+    this.lastSweep = now;
+    this.db
+      .prepare("DELETE FROM deliveries WHERE expires_at < ?")
+      .run(Math.floor(now / 1000));
+  }
+}
+
+// Record the delivery (ARGV[1] id, ARGV[2] JSON) as pending and count it as
+// billable for its nonce (ARGV[3]) unless the nonce already has ARGV[4] (if
+// set) billable deliveries; the voucher's keys expire with it (ARGV[5])
+const BEGIN_SCRIPT = `
+if ARGV[4] ~= '' then
+  local billable = tonumber(redis.call('HGET', KEYS[2], ARGV[3]) or '0')
+  if billable >= tonumber(ARGV[4]) then
+    return 0
+  end
+end
+redis.call('HINCRBY', KEYS[2], ARGV[3], 1)
+redis.call('HSET', KEYS[1], ARGV[1], ARGV[2])
+redis.call('HSET', KEYS[3], ARGV[1], 'pending')
+for i = 1, 3 do
+  redis.call('EXPIREAT', KEYS[i], ARGV[5])
+end
+return 1
+`;
+
+// Store the final record (ARGV[2], state ARGV[3]) of a pending delivery
+// (ARGV[1]); a failed one no longer counts as billable for its nonce
+// (ARGV[4]). Finishing it again changes nothing
+const FINISH_SCRIPT = `
+if redis.call('HGET', KEYS[3], ARGV[1]) ~= 'pending' then
+  return 0
+end
+redis.call('HSET', KEYS[1], ARGV[1], ARGV[2])
+redis.call('HSET', KEYS[3], ARGV[1], ARGV[3])
+if ARGV[3] == 'failed' then
+  redis.call('HINCRBY', KEYS[2], ARGV[4], -1)
+end
+return 1
+`;
+
+// Redis ledger (shared by every instance): hashes of records and of their
+// states per voucher, and a hash of billable delivery counts per nonce
+export class RedisDeliveryLedger implements DeliveryLedger {
+  constructor(
+    private readonly client: Redis,
+    private readonly keyPrefix = "x402:deliveries:"
+  ) {}
+
+  async begin(
+    delivery: DeliveryRecord,
+    maxBillable?: number
+  ): Promise<boolean> {
+    const result = await this.client.eval(
+      BEGIN_SCRIPT,
+      3,
+      ...this.keys(delivery.voucherId),
+      delivery.id,
+      JSON.stringify(delivery),
+      String(delivery.nonce),
+      maxBillable === undefined ? "" : String(maxBillable),
+      String(delivery.expiresAt)
+    );
+    return result === 1;
+  }
+
+  async finish(delivery: DeliveryRecord): Promise<void> {
+    await this.client.eval(
+      FINISH_SCRIPT,
+      3,
+      ...this.keys(delivery.voucherId),
+      delivery.id,
+      JSON.stringify(delivery),
+      delivery.state,
+      String(delivery.nonce)
+    );
+  }
+
+  async countBillable(voucherId: string, nonce: number): Promise<number> {
+    const count = await this.client.hget(
+      `${this.keyPrefix}${voucherId}:billable`,
+      String(nonce)
+    );
+    return Number(count ?? 0);
+  }
+
+  async list(voucherId: string): Promise<DeliveryRecord[]> {
+    const entries = await this.client.hvals(this.keyPrefix + voucherId);
+    return entries
+      .map((entry) => JSON.parse(entry) as DeliveryRecord)
+      .sort((a, b) => a.startedAt - b.startedAt);
+  }
+
+  async drop(voucherId: string): Promise<void> {
+    await this.client.del(...this.keys(voucherId));
+  }
+
+  // Records, billable counts per nonce and delivery states of a voucher
+  private keys(voucherId: string): [string, string, string] {
+    const key = this.keyPrefix + voucherId;
+    return [key, `${key}:billable`, `${key}:states`];
+  }
+}
+
+// Factory for creating the configured ledger
+export function createDeliveryLedger(
+  driver: string = config.deliveryLedger
+): DeliveryLedger {
+  switch (driver) {
+    case "memory":
+      return new InMemoryDeliveryLedger();
+    case "sqlite":
+      return new SqliteDeliveryLedger(config.sqlitePath);
+    case "redis":
+      return new RedisDeliveryLedger(new Redis(config.redisUrl));
+    default:
+      throw new Error(`Unknown delivery ledger: ${driver}`);
+  }
+}
@@ -0,0 +1,70 @@
+import { describe, it, expect } from "vitest";
+import os from "os";
+import path from "path";
+import RedisMock from "ioredis-mock";
+import type { Redis } from "ioredis";
+import {
+  InMemoryRevocationStore,
+  RedisRevocationStore,
+  SqliteRevocationStore,
+  type Revocation,
+  type RevocationStore,
+} from "./revocation-store.js";
+
+const revocation = (value: string, revokedAt: number): Revocation => ({
+  kind: "sub",
+  value,
+  revokedAt,
+  expiresAt: revokedAt + 900,
+});
+
+const stores: [string, () => RevocationStore][] = [
+  ["memory", () => new InMemoryRevocationStore()],
+  [
+    "sqlite",
+    () =>
+      new SqliteRevocationStore(
+        path.join(os.tmpdir(), `paylink-revocations-${process.pid}.db`)
+      ),
+  ],
+  [
+    "redis",
+    () => new RedisRevocationStore(new RedisMock() as unknown as Redis),
+  ],
+];
+
+describe.each(stores)("RevocationStore (%s)", (_name, createStore) => {
+  it("should store revocations per kind and value", async () => {
+    const store = createStore();
+    const now = Math.floor(Date.now() / 1000);
+    const value = `0xpayer-${Date.now()}`;
+
+    await store.revoke(revocation(value, now));
+
+    expect(await store.get("sub", value)).toEqual(revocation(value, now));
+    expect(await store.get("jti", value)).toBeUndefined();
+  });
+
+  it("should keep the latest revocation", async () => {
+    const store = createStore();
+    const now = Math.floor(Date.now() / 1000);
+    const value = `0xlatest-${Date.now()}`;
+
+    await store.revoke(revocation(value, now));
+    await store.revoke(revocation(value, now - 60));
+
+    expect((await store.get("sub", value))?.revokedAt).toBe(now);
+  });
+
+  it("should drop expired revocations", async () => {
+    const store = createStore();
+    const value = `0xexpired-${Date.now()}`;
+
+    await store.revoke({
+      ...revocation(value, 1700000000),
+      expiresAt: 1700000900,
+    });
+
+    expect(await store.get("sub", value)).toBeUndefined();
+  });
+});
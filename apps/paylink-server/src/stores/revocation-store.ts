@@ -0,0 +1,162 @@
+import type Database from "better-sqlite3";
+import { Redis } from "ioredis";
+import { config } from "../config.js";
+import { openSqlite } from "./sqlite.js";
+
+// What a revocation applies to: one receipt, every receipt of a payer
+// (receipt sub) or every receipt for a wrapped stream
+export type RevocationKind = "jti" | "sub" | "stream";
+
+export interface Revocation {
+  kind: RevocationKind;
+  value: string;
+  revokedAt: number; // Unix timestamp, receipts issued at or before are revoked
+  expiresAt: number; // Unix timestamp, once every revoked receipt has expired
+  reason?: string;
+}
+
+/**
+ * Receipt revocation list ((kind, value) -> Revocation)
+ *
+ * Revoking the same (kind, value) again keeps the latest revokedAt.
+ * Entries are only kept until expiresAt, since receipts issued before
+ * revokedAt have expired by then.
+ */
+export interface RevocationStore {
+  get(kind: RevocationKind, value: string): Promise<Revocation | undefined>;
+  revoke(revocation: Revocation): Promise<void>;
+}
+
+// In-memory store (lost on restart, not shared between instances)
+export class InMemoryRevocationStore implements RevocationStore {
+  private readonly revocations = new Map<string, Revocation>();
+
+  async get(
+    kind: RevocationKind,
+    value: string
+  ): Promise<Revocation | undefined> {
+    const key = `${kind}:${value}`;
+    const revocation = this.revocations.get(key);
+    if (revocation && revocation.expiresAt < Math.floor(Date.now() / 1000)) {
+      this.revocations.delete(key);
+      return undefined;
+    }
+    return revocation;
+  }
+
+  async revoke(revocation: Revocation): Promise<void> {
+    const key = `${revocation.kind}:${revocation.value}`;
+    const current = this.revocations.get(key);
+    if (!current || current.revokedAt <= revocation.revokedAt) {
+      this.revocations.set(key, revocation);
+    }
+  }
+}
+
+// SQLite store (durable on a single host)
+export class SqliteRevocationStore implements RevocationStore {
+  private readonly db: Database.Database;
+
+  constructor(filename: string) {
+    this.db = openSqlite(filename);
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS receipt_revocations (
+        kind TEXT NOT NULL,
+        value TEXT NOT NULL,
+        data TEXT NOT NULL,
+        revoked_at INTEGER NOT NULL,
+        expires_at INTEGER NOT NULL,
+        PRIMARY KEY (kind, value)
+      )
+    `);
+  }
+
+  async get(
+    kind: RevocationKind,
+    value: string
+  ): Promise<Revocation | undefined> {
+    const row = this.db
+      .prepare(
+        "SELECT data FROM receipt_revocations WHERE kind = ? AND value = ? AND expires_at >= ?"
+      )
+      .get(kind, value, Math.floor(Date.now() / 1000)) as
+      { data: string } | undefined;
+    return row ? (JSON.parse(row.data) as Revocation) : undefined;
+  }
+
+  async revoke(revocation: Revocation): Promise<void> {
+    const { kind, value, revokedAt, expiresAt } = revocation;
+    this.db
+      .prepare("DELETE FROM receipt_revocations WHERE expires_at < ?")
+      .run(Math.floor(Date.now() / 1000));
+    this.db
+      .prepare(
+        `INSERT INTO receipt_revocations (kind, value, data, revoked_at, expires_at)
+         VALUES (?, ?, ?, ?, ?)
+         ON CONFLICT (kind, value) DO UPDATE SET
+           data = excluded.data,
+           revoked_at = excluded.revoked_at,
+           expires_at = excluded.expires_at
+         WHERE excluded.revoked_at >= receipt_revocations.revoked_at`
+      )
+      .run(kind, value, JSON.stringify(revocation), revokedAt, expiresAt);
+  }
+}
+
+// Store the revocation hash unless a later revokedAt (ARGV[2]) is stored,
+// expiring at ARGV[3] (unix seconds)
+const REVOKE_SCRIPT = `
+local current = redis.call('HGET', KEYS[1], 'revokedAt')
+if current and tonumber(current) > tonumber(ARGV[2]) then
+  return 0
+end
+redis.call('HSET', KEYS[1], 'revokedAt', ARGV[2], 'data', ARGV[1])
+redis.call('EXPIREAT', KEYS[1], ARGV[3])
+return 1
+`;
+
+// Redis store (shared by every instance, entries expire with EXPIREAT)
+export class RedisRevocationStore implements RevocationStore {
+  constructor(
+    private readonly client: Redis,
+    private readonly keyPrefix = "x402:revocation:"
+  ) {}
+
+  async get(
+    kind: RevocationKind,
+    value: string
+  ): Promise<Revocation | undefined> {
+    const data = await this.client.hget(
+      `${this.keyPrefix}${kind}:${value}`,
+      "data"
+    );
+    return data ? (JSON.parse(data) as Revocation) : undefined;
+  }
+
+  async revoke(revocation: Revocation): Promise<void> {
+    await this.client.eval(
+      REVOKE_SCRIPT,
+      1,
+      `${this.keyPrefix}${revocation.kind}:${revocation.value}`,
+      JSON.stringify(revocation),
+      String(revocation.revokedAt),
+      String(revocation.expiresAt)
+    );
+  }
+}
+
+// Factory for creating the configured store
+export function createRevocationStore(
+  driver: string = config.revocationStore
+): RevocationStore {
+  switch (driver) {
+    case "memory":
+      return new InMemoryRevocationStore();
+    case "sqlite":
+      return new SqliteRevocationStore(config.sqlitePath);
+    case "redis":
+      return new RedisRevocationStore(new Redis(config.redisUrl));
+    default:
+      throw new Error(`Unknown revocation store: ${driver}`);
+  }
+}
@@ -0,0 +1,27 @@
+import Database from "better-sqlite3";
+import fs from "fs";
+import path from "path";
+
+// One connection per database file, shared by every SQLite-backed store
+const databases = new Map<string, Database.Database>();
+
+/**
+ * Open (or reuse) a SQLite database file in WAL mode
+ */
+export function openSqlite(filename: string): Database.Database {
+  const existing = databases.get(filename);
+  if (existing) {
+    return existing;
+  }
+
+  if (filename !== ":memory:") {
+    fs.mkdirSync(path.dirname(filename), { recursive: true });
+  }
+
+  const db = new Database(filename);
+  db.pragma("journal_mode = WAL");
+  db.pragma("busy_timeout = 5000");
+
+  databases.set(filename, db);
+  return db;
+}
@@ -0,0 +1,144 @@
+import { describe, it, expect } from "vitest";
+import os from "os";
+import path from "path";
+import RedisMock from "ioredis-mock";
+import type { Redis } from "ioredis";
+import type { VoucherState } from "@x402-video-paylink/deferred";
+import {
+  InMemoryVoucherStore,
+  RedisVoucherStore,
+  SqliteVoucherStore,
+  type VoucherStore,
+} from "./voucher-store.js";
+
+// Vouchers past their expiry are dropped by the Redis store
+const expiry = Math.floor(Date.now() / 1000) + 3600;
+
+const state = (id: string, nonce: number): VoucherState => ({
+  voucher: {
+    id,
+    resource: "stream-1",
+    seller: "0x0000000000000000000000000000000000000001",
+    buyer: "0x0000000000000000000000000000000000000002",
+    asset: "0x036CbD53842c5426634e7929541eC2318f3dCF7e",
+    nonce,
+    valueAggregate: String(10000 * (nonce + 1)),
+    timestamp: 1700000000 + nonce * 20,
+    expiry,
+    chainId: 84532,
+  },
+  signature: `0x${nonce}`,
+});
+
+const stores: [string, () => VoucherStore][] = [
+  ["memory", () => new InMemoryVoucherStore()],
+  [
+    "sqlite",
+    () =>
+      new SqliteVoucherStore(
+        path.join(os.tmpdir(), `paylink-vouchers-${process.pid}.db`)
+      ),
+  ],
+  ["redis", () => new RedisVoucherStore(new RedisMock() as unknown as Redis)],
+];
+
+describe.each(stores)("VoucherStore (%s)", (_name, createStore) => {
+  it("should only create a voucher once", async () => {
+    const store = createStore();
+    const id = `v-create-${Date.now()}`;
+
+    expect(await store.compareAndSet(id, null, state(id, 0))).toBe(true);
+    expect(await store.compareAndSet(id, null, state(id, 0))).toBe(false);
+    expect(await store.get(id)).toEqual(state(id, 0));
+  });
+
+  it("should aggregate only from the stored nonce", async () => {
+    const store = createStore();
+    const id = `v-aggregate-${Date.now()}`;
+    await store.compareAndSet(id, null, state(id, 0));
+
+    expect(await store.compareAndSet(id, 1, state(id, 2))).toBe(false);
+    expect(await store.compareAndSet(id, 0, state(id, 1))).toBe(true);
+    // Replaying the same aggregation loses the race
+    expect(await store.compareAndSet(id, 0, state(id, 1))).toBe(false);
+    expect((await store.get(id))?.voucher.nonce).toBe(1);
+  });
+
+  it("should let exactly one concurrent aggregation win", async () => {
+    const store = createStore();
+    const id = `v-race-${Date.now()}`;
+    await store.compareAndSet(id, null, state(id, 0));
+
+    const results = await Promise.all(
+      Array.from({ length: 5 }, () => store.compareAndSet(id, 0, state(id, 1)))
+    );
+
+    expect(results.filter(Boolean)).toHaveLength(1);
+  });
+
+  it("should refuse aggregation once settlement claimed the nonce", async () => {
+    const store = createStore();
+    const id = `v-claim-${Date.now()}`;
+    await store.compareAndSet(id, null, state(id, 0));
+    const pending = {
+      ...state(id, 0),
+      settlement: { status: "pending" as const, updatedAt: Date.now() },
+    };
+
+    expect(await store.compareAndSet(id, 0, pending)).toBe(true);
+    // Aggregation read the state before the claim
+    expect(await store.compareAndSet(id, 0, state(id, 1))).toBe(false);
+    expect(await store.compareAndSet(id, 0, pending, "pending")).toBe(true);
+    expect((await store.get(id))?.settlement?.status).toBe("pending");
+  });
+
+  it("should list failed settlements as unsettled", async () => {
+    const store = createStore();
+    const [fresh, pending, failed] = ["fresh", "pending", "failed"].map(
+      (name) => `v-list-${name}-${Date.now()}`
+    );
+    for (const id of [fresh, pending, failed]) {
+      await store.compareAndSet(id, null, state(id, 0));
+    }
+    await store.compareAndSet(pending, 0, {
+      ...state(pending, 0),
+      settlement: { status: "pending", updatedAt: Date.now() },
+    });
+    await store.compareAndSet(failed, 0, {
+      ...state(failed, 0),
+      settlement: { status: "failed", updatedAt: Date.now() },
+    });
+
+    const ids = (await store.listUnsettled()).map(({ voucher }) => voucher.id);
+
+    expect(ids).toEqual(expect.arrayContaining([fresh, failed]));
+    expect(ids).not.toContain(pending);
+  });
+});
+
+describe("RedisVoucherStore", () => {
+  it("should expire vouchers an hour after their own expiry", async () => {
+    const client = new RedisMock() as unknown as Redis;
+    const store = new RedisVoucherStore(client);
+    const id = `v-ttl-${Date.now()}`;
+    const expired = `v-expired-${Date.now()}`;
+    await store.compareAndSet(id, null, state(id, 0));
+    await store.compareAndSet(expired, null, {
+      ...state(expired, 0),
+      voucher: {
+        ...state(expired, 0).voucher,
+        expiry: Math.floor(Date.now() / 1000) - 3660,
+      },
+    });
+
+    const ttl = await client.ttl(`x402:voucher:${id}`);
+    expect(ttl).toBeGreaterThan(2 * 3600 - 10);
+    expect(ttl).toBeLessThanOrEqual(2 * 3600);
+
+    expect(await store.get(expired)).toBeUndefined();
+    const ids = (await store.listUnsettled()).map(({ voucher }) => voucher.id);
+    expect(ids).toContain(id);
+    expect(ids).not.toContain(expired);
+    expect(await client.sismember("x402:vouchers:unsettled", expired)).toBe(0);
+  });
+});
@@ -0,0 +1,225 @@
+import type Database from "better-sqlite3";
+import { Redis } from "ioredis";
+import type {
+  VoucherSettlement,
+  VoucherState,
+} from "@x402-video-paylink/deferred";
+import { config } from "../config.js";
+import { openSqlite } from "./sqlite.js";
+
+/**
+ * Voucher state store (voucher.id -> latest VoucherState)
+ *
+ * compareAndSet is the only write: it replaces the state for `id` only if the
+ * stored voucher nonce still equals `expectedNonce` (null = no voucher stored
+ * yet) and its settlement status still equals `expectedSettlement`
+ * (undefined = settlement not started), so concurrent aggregations across
+ * instances can't both win, and an aggregation can't overwrite a voucher
+ * claimed for settlement at the same nonce.
+ * Only the latest (highest-nonce) state per voucher id is kept.
+ */
+export interface VoucherStore {
+  get(id: string): Promise<VoucherState | undefined>;
+  // Vouchers whose settlement hasn't started yet, or failed (to be retried)
+  listUnsettled(): Promise<VoucherState[]>;
+  compareAndSet(
+    id: string,
+    expectedNonce: number | null,
+    state: VoucherState,
+    expectedSettlement?: SettlementStatus
+  ): Promise<boolean>;
+}
+
+type SettlementStatus = VoucherSettlement["status"];
+
+// Settlement not started, or failed and due for another attempt
+function isUnsettled(state: VoucherState): boolean {
+  return !state.settlement || state.settlement.status === "failed";
+}
+
+// In-memory store (lost on restart, not shared between instances)
+export class InMemoryVoucherStore implements VoucherStore {
+  private readonly vouchers = new Map<string, VoucherState>();
+
+  async get(id: string): Promise<VoucherState | undefined> {
+    return this.vouchers.get(id);
+  }
+
+  async listUnsettled(): Promise<VoucherState[]> {
+    return [...this.vouchers.values()].filter(isUnsettled);
+  }
+
+  async compareAndSet(
+    id: string,
+    expectedNonce: number | null,
+    state: VoucherState,
+    expectedSettlement?: SettlementStatus
+  ): Promise<boolean> {
+    const current = this.vouchers.get(id);
+    if (
+      (current?.voucher.nonce ?? null) !== expectedNonce ||
+      (current && current.settlement?.status !== expectedSettlement)
+    ) {
+      return false;
+    }
+    this.vouchers.set(id, state);
+    return true;
+  }
+}
+
+// SQLite store (durable on a single host)
+export class SqliteVoucherStore implements VoucherStore {
+  private readonly db: Database.Database;
+
+  constructor(filename: string) {
+    this.db = openSqlite(filename);
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS vouchers (
+        id TEXT PRIMARY KEY,
+        nonce INTEGER NOT NULL,
+        data TEXT NOT NULL,
+        updated_at INTEGER NOT NULL
+      )
+    `);
+  }
+
+  async get(id: string): Promise<VoucherState | undefined> {
+    const row = this.db
+      .prepare("SELECT data FROM vouchers WHERE id = ?")
+      .get(id) as { data: string } | undefined;
+    return row ? (JSON.parse(row.data) as VoucherState) : undefined;
+  }
+
+  async listUnsettled(): Promise<VoucherState[]> {
+    const rows = this.db
+      .prepare(
+        `SELECT data FROM vouchers WHERE json_extract(data, '$.settlement') IS NULL
+           OR json_extract(data, '$.settlement.status') = 'failed'`
+      )
+      .all() as { data: string }[];
+    return rows.map((row) => JSON.parse(row.data) as VoucherState);
+  }
+
+  async compareAndSet(
+    id: string,
+    expectedNonce: number | null,
+    state: VoucherState,
+    expectedSettlement?: SettlementStatus
+  ): Promise<boolean> {
+    const data = JSON.stringify(state);
+    const now = Date.now();
+
+    const result =
+      expectedNonce === null
+        ? this.db
+            .prepare(
+              "INSERT OR IGNORE INTO vouchers (id, nonce, data, updated_at) VALUES (?, ?, ?, ?)"
+            )
+            .run(id, state.voucher.nonce, data, now)
+        : this.db
+            .prepare(
+              `UPDATE vouchers SET nonce = ?, data = ?, updated_at = ?
+               WHERE id = ? AND nonce = ?
+                 AND json_extract(data, '$.settlement.status') IS ?`
+            )
+            .run(
+              state.voucher.nonce,
+              data,
+              now,
+              id,
+              expectedNonce,
+              expectedSettlement ?? null
+            );
+
+    return result.changes === 1;
+  }
+}
+
+// Compare-and-set on the "nonce" and "settlement" (status) fields of the
+// voucher hash ("" = missing), keeping the set of unsettled voucher ids
+// (KEYS[2]) in sync. The hash expires at ARGV[7]
+const COMPARE_AND_SET_SCRIPT = `
+local current = redis.call('HGET', KEYS[1], 'nonce')
+if (current or '') ~= ARGV[1] then
+  return 0
+end
+if current and (redis.call('HGET', KEYS[1], 'settlement') or '') ~= ARGV[2] then
+  return 0
+end
+redis.call('HSET', KEYS[1], 'nonce', ARGV[3], 'state', ARGV[4], 'settlement', ARGV[5])
+redis.call('EXPIREAT', KEYS[1], ARGV[7])
+if ARGV[5] == '' or ARGV[5] == 'failed' then
+  redis.call('SADD', KEYS[2], ARGV[6])
+else
+  redis.call('SREM', KEYS[2], ARGV[6])
+end
+return 1
+`;
+
+// Redis store (shared by every instance, atomic via a Lua script).
+// Vouchers expire graceSeconds after their own expiry, leaving settlements
+// claimed near expiry (and their retries) time to record the outcome
+export class RedisVoucherStore implements VoucherStore {
+  constructor(
+    private readonly client: Redis,
+    private readonly keyPrefix = "x402:voucher:",
+    private readonly unsettledKey = "x402:vouchers:unsettled",
+    private readonly graceSeconds = 3600
+  ) {}
+
+  async get(id: string): Promise<VoucherState | undefined> {
+    const data = await this.client.hget(this.keyPrefix + id, "state");
+    return data ? (JSON.parse(data) as VoucherState) : undefined;
+  }
+
+  async listUnsettled(): Promise<VoucherState[]> {
+    const ids = await this.client.smembers(this.unsettledKey);
+    const states = await Promise.all(ids.map((id) => this.get(id)));
+    // Forget the ids of expired vouchers
+    const expired = ids.filter((_id, i) => !states[i]);
+    if (expired.length > 0) {
+      await this.client.srem(this.unsettledKey, ...expired);
+    }
+    return states.filter(
+      (state): state is VoucherState => !!state && isUnsettled(state)
+    );
+  }
+
+  async compareAndSet(
+    id: string,
+    expectedNonce: number | null,
+    state: VoucherState,
+    expectedSettlement?: SettlementStatus
+  ): Promise<boolean> {
+    const result = await this.client.eval(
+      COMPARE_AND_SET_SCRIPT,
+      2,
+      this.keyPrefix + id,
+      this.unsettledKey,
+      expectedNonce === null ? "" : String(expectedNonce),
+      expectedSettlement ?? "",
+      String(state.voucher.nonce),
+      JSON.stringify(state),
+      state.settlement?.status ?? "",
+      id,
+      String(state.voucher.expiry + this.graceSeconds)
+    );
+    return result === 1;
+  }
+}
+
+// Factory for creating the configured store
+export function createVoucherStore(
+  driver: string = config.voucherStore
+): VoucherStore {
+  switch (driver) {
+    case "memory":
+      return new InMemoryVoucherStore();
+    case "sqlite":
+      return new SqliteVoucherStore(config.sqlitePath);
+    case "redis":
+      return new RedisVoucherStore(new Redis(config.redisUrl));
+    default:
+      throw new Error(`Unknown voucher store: ${driver}`);
+  }
+}
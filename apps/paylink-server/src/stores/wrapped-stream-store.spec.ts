@@ -0,0 +1,89 @@
+import { describe, it, expect } from "vitest";
+import os from "os";
+import path from "path";
+import {
+  DynamoDBDocumentClient,
+  GetCommand,
+  PutCommand,
+} from "@aws-sdk/lib-dynamodb";
+import type { Wrapped } from "../types.js";
+import {
+  DynamoWrappedStreamStore,
+  InMemoryWrappedStreamStore,
+  SqliteWrappedStreamStore,
+  type WrappedStreamStore,
+} from "./wrapped-stream-store.js";
+
+// Local stand-in for a DynamoDB document client (Get/Put on partition key "id")
+class LocalDocumentClient {
+  readonly tables = new Map<string, Map<string, Record<string, unknown>>>();
+
+  async send(command: GetCommand | PutCommand) {
+    const { TableName } = command.input;
+    const table = this.tables.get(TableName!) ?? new Map();
+    this.tables.set(TableName!, table);
+
+    if (command instanceof PutCommand) {
+      const item = structuredClone(command.input.Item!);
+      table.set(item.id as string, item);
+      return {};
+    }
+
+    const item = table.get(command.input.Key!.id as string);
+    return { Item: item && structuredClone(item) };
+  }
+}
+
+const stream = (id: string): Wrapped => ({
+  id,
+  originUrl: "https://example.com/video.m3u8",
+  kind: "hls",
+  createdAt: Date.now(),
+});
+
+const stores: [string, () => WrappedStreamStore][] = [
+  ["memory", () => new InMemoryWrappedStreamStore()],
+  [
+    "sqlite",
+    () =>
+      new SqliteWrappedStreamStore(
+        path.join(os.tmpdir(), `paylink-${process.pid}.db`)
+      ),
+  ],
+  [
+    "dynamodb",
+    () =>
+      new DynamoWrappedStreamStore(
+        new LocalDocumentClient() as unknown as DynamoDBDocumentClient,
+        "wrapped"
+      ),
+  ],
+];
+
+describe.each(stores)("WrappedStreamStore (%s)", (_name, createStore) => {
+  it("should store and return wrapped streams", async () => {
+    const store = createStore();
+    const wrapped = stream(`s-${Date.now()}`);
+
+    expect(await store.has(wrapped.id)).toBe(false);
+    expect(await store.get(wrapped.id)).toBeUndefined();
+
+    await store.set(wrapped);
+
+    expect(await store.has(wrapped.id)).toBe(true);
+    expect(await store.get(wrapped.id)).toEqual(wrapped);
+  });
+});
+
+describe("SqliteWrappedStreamStore", () => {
+  it("should keep streams across store instances", async () => {
+    const filename = path.join(os.tmpdir(), `paylink-${process.pid}-reopen.db`);
+    const wrapped = stream("persisted");
+
+    await new SqliteWrappedStreamStore(filename).set(wrapped);
+
+    expect(
+      await new SqliteWrappedStreamStore(filename).get("persisted")
+    ).toEqual(wrapped);
+  });
+});
@@ -0,0 +1,128 @@
+import type Database from "better-sqlite3";
+import { DynamoDBClient } from "@aws-sdk/client-dynamodb";
+import {
+  DynamoDBDocumentClient,
+  GetCommand,
+  PutCommand,
+} from "@aws-sdk/lib-dynamodb";
+import { config } from "../config.js";
+import type { Wrapped } from "../types.js";
+import { openSqlite } from "./sqlite.js";
+
+// Common interface for wrapped stream registries (mirrors the Map API it replaced)
+export interface WrappedStreamStore {
+  get(id: string): Promise<Wrapped | undefined>;
+  has(id: string): Promise<boolean>;
+  set(stream: Wrapped): Promise<void>;
+}
+
+// In-memory store (lost on restart, not shared between instances)
+export class InMemoryWrappedStreamStore implements WrappedStreamStore {
+  private readonly streams = new Map<string, Wrapped>();
+
+  async get(id: string): Promise<Wrapped | undefined> {
+    return this.streams.get(id);
+  }
+
+  async has(id: string): Promise<boolean> {
+    return this.streams.has(id);
+  }
+
+  async set(stream: Wrapped): Promise<void> {
+    this.streams.set(stream.id, stream);
+  }
+}
+
+// SQLite store (durable on a single host, e.g. a mounted volume)
+export class SqliteWrappedStreamStore implements WrappedStreamStore {
+  private readonly db: Database.Database;
+
+  constructor(filename: string) {
+    this.db = openSqlite(filename);
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS wrapped_streams (
+        id TEXT PRIMARY KEY,
+        data TEXT NOT NULL,
+        created_at INTEGER NOT NULL
+      )
+    `);
+  }
+
+  async get(id: string): Promise<Wrapped | undefined> {
+    const row = this.db
+      .prepare("SELECT data FROM wrapped_streams WHERE id = ?")
+      .get(id) as { data: string } | undefined;
+    return row ? (JSON.parse(row.data) as Wrapped) : undefined;
+  }
+
+  async has(id: string): Promise<boolean> {
+    const row = this.db
+      .prepare("SELECT 1 FROM wrapped_streams WHERE id = ?")
+      .get(id);
+    return row !== undefined;
+  }
+
+  async set(stream: Wrapped): Promise<void> {
+    this.db
+      .prepare(
+        "INSERT OR REPLACE INTO wrapped_streams (id, data, created_at) VALUES (?, ?, ?)"
+      )
+      .run(stream.id, JSON.stringify(stream), stream.createdAt);
+  }
+}
+
+// DynamoDB store (shared by every Fargate task and Lambda instance)
+// Table needs a string partition key named "id"
+export class DynamoWrappedStreamStore implements WrappedStreamStore {
+  constructor(
+    private readonly client: DynamoDBDocumentClient,
+    private readonly tableName: string
+  ) {}
+
+  async get(id: string): Promise<Wrapped | undefined> {
+    const result = await this.client.send(
+      new GetCommand({ TableName: this.tableName, Key: { id } })
+    );
+    return result.Item as Wrapped | undefined;
+  }
+
+  async has(id: string): Promise<boolean> {
+    const result = await this.client.send(
+      new GetCommand({
+        TableName: this.tableName,
+        Key: { id },
+        ProjectionExpression: "id",
+      })
+    );
+    return result.Item !== undefined;
+  }
+
+  async set(stream: Wrapped): Promise<void> {
+    await this.client.send(
+      new PutCommand({ TableName: this.tableName, Item: stream })
+    );
+  }
+}
+
+// Factory for creating the configured store
+export function createWrappedStreamStore(
+  driver: string = config.wrappedStore
+): WrappedStreamStore {
+  switch (driver) {
+    case "memory":
+      return new InMemoryWrappedStreamStore();
+    case "sqlite":
+      return new SqliteWrappedStreamStore(config.sqlitePath);
+    case "dynamodb": {
+      const client = DynamoDBDocumentClient.from(
+        new DynamoDBClient({
+          ...(config.dynamoEndpoint && { endpoint: config.dynamoEndpoint }),
+        }),
+        { marshallOptions: { removeUndefinedValues: true } }
+      );
+      return new DynamoWrappedStreamStore(client, config.dynamoTableName);
+    }
+    default:
+      throw new Error(`Unknown wrapped stream store: ${driver}`);
+  }
+}
@@ -7,12 +7,74 @@ export interface Wrapped {
   createdAt: number;
   // For progressive streams, store the original file extension
   originalExt?: string;
+  // Per-stream pricing and metadata (global config is used when unset)
+  price?: string;
+  stepAmount?: string;
+  payTo?: string;
+  title?: string;
+  description?: string;
+  // Live stream metered by viewing time (manifest fee may be "0")
+  live?: boolean;
 }
 
 export interface WrapRequest {
   url: string;
+  // Manifest price in USDC (e.g. "0.05")
+  price?: string;
+  // Per-minute step amount in atomic units (e.g. "10000" = 0.01 USDC)
+  stepAmount?: string;
+  // Creator address receiving payments
+  payTo?: string;
+  title?: string;
+  description?: string;
+  // Live HLS/DASH stream: stepAmount is charged per minute of viewing and
+  // the manifest price may be "0"
+  live?: boolean;
 }
 
 export interface WrapResponse {
   wrappedUrl: string;
 }
+
+// Playback token for native players, carried as ?x402_token= in the URL
+export interface PlaybackTokenResponse {
+  token: string;
+  expiresAt: number; // Unix timestamp
+}
+
+// Response of POST /stream/:id/playback-url
+export interface PlaybackUrlResponse {
+  url: string; // Manifest URL carrying the allowance token
+  expiresAt: number; // Unix timestamp
+  allowance: string; // Prepaid voucher value in atomic units
+}
+
+// Per-request payment settings overriding the middleware defaults
+export interface PaymentOverrides {
+  price?: string;
+  stepAmount?: string;
+  payTo?: string;
+  title?: string;
+  description?: string;
+  mimeType?: string;
+  // Meter deferred payments by viewing time (live streams)
+  live?: boolean;
+  // Meter deferred payments per byte range (progressive files)
+  progressive?: boolean;
+}
+
+// Streamed body reported by a proxy handler in res.locals.delivery, so the
+// deferred middleware only bills complete deliveries
+export interface DeliveryReport {
+  bytes: number;
+  complete: boolean;
+}
+
+// Admin request revoking receipts by exactly one of jti, sub or streamId
+export interface RevocationRequest {
+  jti?: string;
+  // Payer address (receipt sub)
+  sub?: string;
+  streamId?: string;
+  reason?: string;
+}
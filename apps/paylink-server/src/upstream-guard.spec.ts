@@ -0,0 +1,160 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import type { LookupAddress } from "node:dns";
+import {
+  assertUpstreamUrl,
+  isPublicAddress,
+  isUpstreamBlocked,
+  lookupPublicAddress,
+  UpstreamBlockedError,
+} from "./upstream-guard.js";
+import { fetchUpstream } from "./utils.js";
+
+// Addresses the mocked DNS resolves each test hostname to
+const records = vi.hoisted(() => new Map<string, LookupAddress[]>());
+
+vi.mock("node:dns", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("node:dns")>()),
+  lookup: (
+    hostname: string,
+    _options: unknown,
+    callback: (err: Error | null, addresses: LookupAddress[]) => void
+  ) => callback(null, records.get(hostname) ?? []),
+}));
+
+const lookup = (hostname: string, options: { all?: boolean } = {}) =>
+  new Promise<unknown>((resolve, reject) =>
+    lookupPublicAddress(hostname, options, (err, address, family) =>
+      err ? reject(err) : resolve(options.all ? address : { address, family })
+    )
+  );
+
+describe("isPublicAddress", () => {
+  it("should accept public IPv4 and IPv6 addresses", () => {
+    for (const address of ["93.184.216.34", "8.8.8.8", "2606:4700::1111"]) {
+      expect(isPublicAddress(address)).toBe(true);
+    }
+  });
+
+  it("should refuse private, loopback, link-local and reserved addresses", () => {
+    for (const address of [
+      "127.0.0.1",
+      "10.1.2.3",
+      "172.16.0.1",
+      "192.168.0.1",
+      "169.254.169.254",
+      "100.64.0.1", // Carrier-grade NAT
+      "0.0.0.0",
+      "::",
+      "::1",
+      "[::1]",
+      "fe80::1",
+      "fd00::1",
+      "::ffff:10.0.0.1", // IPv4-mapped
+      "::ffff:a9fe:a9fe", // IPv4-mapped 169.254.169.254 in hex
+      "64:ff9b::a9fe:a9fe", // NAT64
+    ]) {
+      expect(isPublicAddress(address), address).toBe(false);
+    }
+  });
+
+  it("should parse decimal, octal and hex IPv4 literals", () => {
+    expect(isPublicAddress("2130706433")).toBe(false);
+    expect(isPublicAddress("0177.0.0.1")).toBe(false);
+    expect(isPublicAddress("0x7f.0.0.1")).toBe(false);
+  });
+});
+
+describe("assertUpstreamUrl", () => {
+  it("should refuse encoded private IP literals and localhost names", () => {
+    for (const url of [
+      "http://2130706433/video.m3u8",
+      "http://0177.0.0.1/video.m3u8",
+      "http://0x7f.1/video.m3u8",
+      "http://[::ffff:127.0.0.1]/video.m3u8",
+      "http://api.localhost/video.m3u8",
+      "ftp://example.com/video.m3u8",
+    ]) {
+      expect(() => assertUpstreamUrl(url), url).toThrow(UpstreamBlockedError);
+    }
+  });
+
+  it("should leave DNS names to the connection lookup", () => {
+    expect(assertUpstreamUrl("https://cdn.example.com/a.m3u8").hostname).toBe(
+      "cdn.example.com"
+    );
+  });
+});
+
+describe("lookupPublicAddress", () => {
+  it("should return the resolved addresses when all are public", async () => {
+    records.set("cdn.example.com", [
+      { address: "93.184.216.34", family: 4 },
+      { address: "2606:2800:220:1::1", family: 6 },
+    ]);
+
+    expect(await lookup("cdn.example.com")).toEqual({
+      address: "93.184.216.34",
+      family: 4,
+    });
+    expect(await lookup("cdn.example.com", { all: true })).toHaveLength(2);
+  });
+
+  it("should fail when any resolved address is private", async () => {
+    records.set("rebind.example.com", [
+      { address: "93.184.216.34", family: 4 },
+      { address: "10.0.0.5", family: 4 },
+    ]);
+
+    await expect(lookup("rebind.example.com")).rejects.toThrow(
+      "rebind.example.com resolves to a non-public address: 10.0.0.5"
+    );
+  });
+});
+
+describe("fetchUpstream", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("should connect through the validating lookup", async () => {
+    records.set("internal.example.com", [{ address: "127.0.0.1", family: 4 }]);
+
+    const error = await fetchUpstream("http://internal.example.com/a.m3u8")
+      .then(() => undefined)
+      .catch((err) => err);
+
+    expect(isUpstreamBlocked(error)).toBe(true);
+  });
+
+  it("should follow redirects to public URLs", async () => {
+    const fetchMock = vi
+      .spyOn(globalThis, "fetch")
+      .mockResolvedValueOnce(
+        new Response(null, { status: 302, headers: { location: "/b.m3u8" } })
+      )
+      .mockResolvedValueOnce(new Response("#EXTM3U"));
+
+    const response = await fetchUpstream("https://origin.example.com/a.m3u8");
+
+    expect(await response.text()).toBe("#EXTM3U");
+    expect(fetchMock.mock.calls.map(([url]) => url)).toEqual([
+      "https://origin.example.com/a.m3u8",
+      "https://origin.example.com/b.m3u8",
+    ]);
+    expect(fetchMock.mock.calls[0][1]).toMatchObject({ redirect: "manual" });
+  });
+
+  it("should refuse redirects to private addresses", async () => {
+    const fetchMock = vi.spyOn(globalThis, "fetch").mockResolvedValue(
+      new Response(null, {
+        status: 301,
+        headers: { location: "http://169.254.169.254/latest/meta-data" },
+      })
+    );
+
+    await expect(
+      fetchUpstream("https://origin.example.com/a.m3u8")
+    ).rejects.toThrow(UpstreamBlockedError);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+});
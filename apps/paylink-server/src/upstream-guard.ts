@@ -0,0 +1,110 @@
+import { lookup as dnsLookup, type LookupAddress } from "node:dns";
+import type { LookupFunction } from "node:net";
+import ipaddr from "ipaddr.js";
+
+/**
+ * Thrown when an upstream URL or one of its resolved addresses isn't public
+ * (SSRF protection)
+ */
+export class UpstreamBlockedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "UpstreamBlockedError";
+  }
+}
+
+/**
+ * Whether an IP address is publicly routable: anything ipaddr.js doesn't
+ * classify as plain unicast (private, loopback, link-local, CGNAT,
+ * multicast, NAT64/6to4/Teredo ...) is refused
+ *
+ * IPv4-mapped IPv6 addresses (::ffff:10.0.0.1) are checked as IPv4, and
+ * IPv4 literals may use decimal, octal or hex parts (2130706433,
+ * 0177.0.0.1, 0x7f.1).
+ */
+export function isPublicAddress(address: string): boolean {
+  const literal = address.replace(/^\[(.*)\]$/, "$1");
+  if (!ipaddr.isValid(literal)) {
+    return false;
+  }
+  // process() unwraps IPv4-mapped IPv6 addresses
+  return ipaddr.process(literal).range() === "unicast";
+}
+
+/**
+ * Check an upstream URL before connecting: http(s) only, and a host that
+ * is either a public IP literal or a DNS name other than localhost (names
+ * are checked once resolved, see lookupPublicAddress)
+ */
+export function assertUpstreamUrl(url: string | URL): URL {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    throw new UpstreamBlockedError(`Invalid upstream URL: ${url}`);
+  }
+  if (parsed.protocol !== "http:" && parsed.protocol !== "https:") {
+    throw new UpstreamBlockedError(`Protocol not allowed: ${parsed.protocol}`);
+  }
+
+  // The URL parser already normalized IPv4 literals to dotted decimal
+  const hostname = parsed.hostname.replace(/^\[(.*)\]$/, "$1").toLowerCase();
+  if (hostname === "localhost" || hostname.endsWith(".localhost")) {
+    throw new UpstreamBlockedError(`Host not allowed: ${hostname}`);
+  }
+  if (ipaddr.isValid(hostname) && !isPublicAddress(hostname)) {
+    throw new UpstreamBlockedError(`Address not allowed: ${hostname}`);
+  }
+  return parsed;
+}
+
+/**
+ * DNS lookup for upstream sockets that fails unless every address the name
+ * resolves to is public
+ *
+ * The socket connects to the addresses validated here, so a name can't
+ * rebind to a private address between the check and the connection.
+ */
+export const lookupPublicAddress: LookupFunction = (
+  hostname,
+  options,
+  callback
+) => {
+  dnsLookup(hostname, { ...options, all: true }, (err, addresses) => {
+    if (err) {
+      callback(err, "", 0);
+      return;
+    }
+
+    const resolved = addresses as LookupAddress[];
+    const blocked = resolved.find(({ address }) => !isPublicAddress(address));
+    if (resolved.length === 0 || blocked) {
+      const error = new UpstreamBlockedError(
+        `${hostname} resolves to a non-public address${blocked ? `: ${blocked.address}` : ""}`
+      );
+      callback(error as NodeJS.ErrnoException, "", 0);
+      return;
+    }
+
+    if (options.all) {
+      (callback as (err: null, addresses: LookupAddress[]) => void)(
+        null,
+        resolved
+      );
+    } else {
+      callback(null, resolved[0].address, resolved[0].family);
+    }
+  });
+};
+
+/**
+ * Whether a fetchUpstream error is the SSRF check refusing the URL (fetch
+ * reports connection errors, including the lookup's, as their cause)
+ */
+export function isUpstreamBlocked(err: unknown): boolean {
+  return (
+    err instanceof UpstreamBlockedError ||
+    (err instanceof Error &&
+      (err as { cause?: unknown }).cause instanceof UpstreamBlockedError)
+  );
+}
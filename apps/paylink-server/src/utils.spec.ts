@@ -0,0 +1,128 @@
+import { describe, it, expect } from "vitest";
+import { EventEmitter } from "node:events";
+import type { ServerResponse } from "node:http";
+import { Writable } from "node:stream";
+import {
+  getClientAbortSignal,
+  isUpstreamTimeout,
+  pipeUpstreamBody,
+} from "./utils.js";
+
+const CHUNK = new Uint8Array(16 * 1024);
+
+// Upstream body of `chunks` chunks, counting how many were pulled
+function createUpstreamBody(chunks: number, failAt?: number) {
+  const upstream = { pulled: 0, cancelled: false };
+  const body = new ReadableStream<Uint8Array>(
+    {
+      pull(controller) {
+        if (upstream.pulled === failAt) {
+          controller.error(new TypeError("terminated"));
+          return;
+        }
+        if (upstream.pulled === chunks) {
+          controller.close();
+          return;
+        }
+        upstream.pulled++;
+        controller.enqueue(CHUNK);
+      },
+      cancel() {
+        upstream.cancelled = true;
+      },
+    },
+    { highWaterMark: 0 }
+  );
+  return { body, upstream };
+}
+
+// Client connection taking `accept` chunks, then stalling
+function createClient(accept = Infinity) {
+  let received = 0;
+  const client = new Writable({
+    highWaterMark: CHUNK.length,
+    write(_chunk: Buffer, _encoding, callback) {
+      received++;
+      if (received <= accept) callback();
+    },
+  });
+  return client as unknown as ServerResponse;
+}
+
+describe("pipeUpstreamBody", () => {
+  it("should stream the whole body and count its bytes", async () => {
+    const { body } = createUpstreamBody(8);
+
+    const result = await pipeUpstreamBody(body, createClient());
+
+    expect(result).toEqual({ bytes: 8 * CHUNK.length, complete: true });
+  });
+
+  it("should stop reading the upstream while the client is slow", async () => {
+    const { body, upstream } = createUpstreamBody(1000);
+    const client = createClient(2);
+
+    const piping = pipeUpstreamBody(body, client);
+    await new Promise((resolve) => setTimeout(resolve, 50));
+
+    // A few chunks buffered at most, not the whole body
+    expect(upstream.pulled).toBeLessThan(10);
+    (client as unknown as Writable).destroy();
+    expect((await piping).complete).toBe(false);
+    expect(upstream.cancelled).toBe(true);
+  });
+
+  it("should report upstream failures mid-body", async () => {
+    const { body } = createUpstreamBody(8, 3);
+    const client = createClient();
+
+    const result = await pipeUpstreamBody(body, client);
+
+    expect(result.complete).toBe(false);
+    expect(result.bytes).toBe(3 * CHUNK.length);
+    expect(client.destroyed).toBe(true);
+  });
+});
+
+describe("getClientAbortSignal", () => {
+  it("should abort when the client closes before the response is complete", () => {
+    const res = Object.assign(new EventEmitter(), { writableFinished: false });
+    const signal = getClientAbortSignal(res as unknown as ServerResponse);
+
+    res.emit("close");
+
+    expect(signal.aborted).toBe(true);
+  });
+
+  it("should not abort once the response was sent", () => {
+    const res = Object.assign(new EventEmitter(), { writableFinished: true });
+    const signal = getClientAbortSignal(res as unknown as ServerResponse);
+
+    res.emit("close");
+
+    expect(signal.aborted).toBe(false);
+  });
+});
+
+describe("isUpstreamTimeout", () => {
+  const undiciError = (code: string) =>
+    Object.assign(new TypeError("fetch failed"), {
+      cause: Object.assign(new Error(code), { code }),
+    });
+
+  it("should recognize timeoutMs and connect/idle timeouts", () => {
+    expect(isUpstreamTimeout(new DOMException("t", "TimeoutError"))).toBe(true);
+    expect(isUpstreamTimeout(undiciError("UND_ERR_CONNECT_TIMEOUT"))).toBe(
+      true
+    );
+    expect(isUpstreamTimeout(undiciError("UND_ERR_HEADERS_TIMEOUT"))).toBe(
+      true
+    );
+    expect(isUpstreamTimeout(undiciError("UND_ERR_BODY_TIMEOUT"))).toBe(true);
+  });
+
+  it("should not treat other failures as timeouts", () => {
+    expect(isUpstreamTimeout(undiciError("ECONNREFUSED"))).toBe(false);
+    expect(isUpstreamTimeout(new DOMException("a", "AbortError"))).toBe(false);
+  });
+});
@@ -1,8 +1,76 @@
+import type { ServerResponse } from "node:http";
+import { Readable } from "node:stream";
+import { pipeline } from "node:stream/promises";
+import type { ReadableStream as NodeReadableStream } from "node:stream/web";
+import { Agent } from "undici";
+import { config } from "./config.js";
+import { getRequestId } from "./logger.js";
+import {
+  assertUpstreamUrl,
+  lookupPublicAddress,
+  UpstreamBlockedError,
+} from "./upstream-guard.js";
+
+// LL-HLS delivery directives forwarded to the origin on manifest requests
+export const HLS_DELIVERY_DIRECTIVES = ["_HLS_msn", "_HLS_part", "_HLS_skip"];
+
+// Redirect hops followed by fetchUpstream, each one checked like the first
+const MAX_UPSTREAM_REDIRECTS = 5;
+
+// undici error codes of the connect and idle timeouts
+const UPSTREAM_TIMEOUT_CODES = [
+  "UND_ERR_CONNECT_TIMEOUT",
+  "UND_ERR_HEADERS_TIMEOUT",
+  "UND_ERR_BODY_TIMEOUT",
+];
+
+// Connection pool for origin requests: DNS lookups refuse private
+// addresses (see upstream-guard.ts), connects and idle reads time out
+function createUpstreamAgent(headersTimeout: number) {
+  return new Agent({
+    connect: {
+      lookup: lookupPublicAddress,
+      timeout: config.upstreamConnectTimeoutMs,
+    },
+    headersTimeout,
+    bodyTimeout: config.upstreamIdleTimeoutMs,
+  });
+}
+
+const upstreamAgent = createUpstreamAgent(config.upstreamIdleTimeoutMs);
+// Requests the origin may hold (LL-HLS blocking reloads) wait for headers
+// up to their own timeoutMs instead (0 = no headers timeout)
+const heldUpstreamAgent = createUpstreamAgent(0);
+
+interface FetchUpstreamOptions {
+  // Abort the request (and its body) after this many milliseconds
+  timeoutMs?: number;
+  // Abort the request (and its body), e.g. when the client disconnects
+  signal?: AbortSignal;
+}
+
+/**
+ * Fetch an origin URL with SSRF protection: the URL and every redirect
+ * target must be public http(s), and connections go through upstreamAgent,
+ * whose DNS lookup refuses names resolving to private addresses
+ *
+ * Throws UpstreamBlockedError (possibly as the cause of fetch's TypeError,
+ * see isUpstreamBlocked) for refused URLs.
+ */
 export async function fetchUpstream(
   url: string,
-  headers: Record<string, string> = {}
+  headers: Record<string, string> = {},
+  options: FetchUpstreamOptions = {}
 ) {
-  return await fetch(url, {
+  const signals = [
+    options.signal,
+    options.timeoutMs ? AbortSignal.timeout(options.timeoutMs) : undefined,
+  ].filter((signal): signal is AbortSignal => signal !== undefined);
+  const requestId = getRequestId();
+  const init = {
+    signal: signals.length ? AbortSignal.any(signals) : undefined,
+    redirect: "manual",
+    dispatcher: options.timeoutMs ? heldUpstreamAgent : upstreamAgent,
     headers: {
       "User-Agent": headers["user-agent"] || "x402-proxy/1.0",
       ...(headers["accept"] && { Accept: headers["accept"] }),
@@ -17,87 +85,26 @@ export async function fetchUpstream(
       }),
       ...(headers["range"] && { Range: headers["range"] }),
       ...(headers["if-range"] && { "If-Range": headers["if-range"] }),
+      // Correlates origin logs with ours
+      ...(requestId && { "X-Request-Id": requestId }),
     },
-  });
-}
+  } as RequestInit;
 
-// Common interface for manifest rewriters
-export interface ManifestRewriter {
-  rewrite(content: string, streamId: string, baseUrl: string): string;
-}
+  let target = url;
+  for (let hop = 0; ; hop++) {
+    assertUpstreamUrl(target);
+    const response = await fetch(target, init);
 
-// HLS Manifest Rewriter
-export class HlsRewriter implements ManifestRewriter {
-  rewrite(content: string, streamId: string, baseUrl: string): string {
-    const lines = content.split("\n");
-    const rewritten: string[] = [];
-
-    for (const line of lines) {
-      const trimmed = line.trim();
-
-      // Skip comments and empty lines
-      if (trimmed.startsWith("#") || trimmed === "") {
-        rewritten.push(line);
-        continue;
-      }
-
-      // This is a URI line (segment, key, playlist, etc.)
-      // Check if it's already absolute
-      if (trimmed.startsWith("http://") || trimmed.startsWith("https://")) {
-        // Absolute URL - rewrite to go through our proxy
-        const encoded = encodeURIComponent(trimmed);
-        rewritten.push(`${baseUrl}/stream/${streamId}/${encoded}`);
-      } else {
-        // Relative URL - prefix with our proxy path
-        rewritten.push(`${baseUrl}/stream/${streamId}/${trimmed}`);
-      }
+    const location = response.headers.get("location");
+    if (response.status < 300 || response.status >= 400 || !location) {
+      return response;
     }
-
-    return rewritten.join("\n");
-  }
-}
-
-// DASH Manifest Rewriter
-export class DashRewriter implements ManifestRewriter {
-  rewrite(content: string, streamId: string, baseUrl: string): string {
-    return (
-      content
-        // Rewrite <BaseURL>...</BaseURL>
-        .replace(/<BaseURL>(.*?)<\/BaseURL>/g, (_match, url) => {
-          const rewrittenUrl = this.rewriteUrl(url, streamId, baseUrl);
-          return `<BaseURL>${rewrittenUrl}</BaseURL>`;
-        })
-        // Rewrite media/initialization attributes
-        .replace(/(media|initialization)="([^"]+)"/g, (_match, attr, url) => {
-          const rewrittenUrl = this.rewriteUrl(url, streamId, baseUrl);
-          return `${attr}="${rewrittenUrl}"`;
-        })
-    );
-  }
-
-  private rewriteUrl(url: string, streamId: string, baseUrl: string): string {
-    if (!url || url.trim() === "") return url;
-
-    const trimmed = url.trim();
-
-    if (trimmed.startsWith("http://") || trimmed.startsWith("https://")) {
-      // Absolute URL - encode and proxy
-      const encoded = encodeURIComponent(trimmed);
-      return `${baseUrl}/stream/${streamId}/${encoded}`;
-    } else {
-      // Relative URL - prefix with proxy path
-      return `${baseUrl}/stream/${streamId}/${trimmed}`;
+    if (hop === MAX_UPSTREAM_REDIRECTS) {
+      throw new UpstreamBlockedError(`Too many redirects from ${url}`);
     }
-  }
-}
 
-// Factory for creating rewriters
-export function getManifestRewriter(kind: "hls" | "dash"): ManifestRewriter {
-  switch (kind) {
-    case "hls":
-      return new HlsRewriter();
-    case "dash":
-      return new DashRewriter();
+    await response.body?.cancel();
+    target = new URL(location, target).href;
   }
 }
 
@@ -127,3 +134,89 @@ export function getContentType(kind: string, originalExt?: string): string {
   }
   return "application/octet-stream";
 }
+
+// Manifest kind of an upstream response under /stream/{id}/* (undefined
+// for segments, keys, ...)
+export function getManifestKind(
+  url: string,
+  contentType: string | null
+): "hls" | "dash" | undefined {
+  const pathname = new URL(url).pathname.toLowerCase();
+  if (/mpegurl/i.test(contentType ?? "") || pathname.endsWith(".m3u8")) {
+    return "hls";
+  }
+  if (/dash\+xml/i.test(contentType ?? "") || pathname.endsWith(".mpd")) {
+    return "dash";
+  }
+  return undefined;
+}
+
+// Append a raw query string to an upstream URL, keeping the URL's own query
+// as-is (signed CDN URLs must not be re-encoded)
+export function appendQuery(url: string, query: string): string {
+  if (!query) return url;
+  return `${url}${url.includes("?") ? "&" : "?"}${query}`;
+}
+
+// Raw query string without a parameter, the rest left byte-for-byte
+export function removeQueryParam(query: string, name: string): string {
+  return query
+    .split("&")
+    .filter((pair) => pair !== name && !pair.startsWith(`${name}=`))
+    .join("&");
+}
+
+// Raw query string of a request (without "?")
+export function getRequestQuery(originalUrl: string): string {
+  const index = originalUrl.indexOf("?");
+  return index === -1 ? "" : originalUrl.substring(index + 1);
+}
+
+// Whether a fetchUpstream error (or a body read error) is a timeout: its
+// timeoutMs firing, or the connect/idle timeouts of the connection
+export function isUpstreamTimeout(err: unknown): boolean {
+  const cause = err instanceof Error ? (err as { cause?: unknown }).cause : err;
+  return [err, cause].some(
+    (error) =>
+      error instanceof Error &&
+      (error.name === "TimeoutError" ||
+        UPSTREAM_TIMEOUT_CODES.includes(
+          (error as { code?: string }).code ?? ""
+        ))
+  );
+}
+
+// Abort signal for upstream requests, fired when the client disconnects
+// before its response is complete
+export function getClientAbortSignal(res: ServerResponse): AbortSignal {
+  const controller = new AbortController();
+  res.on("close", () => {
+    if (!res.writableFinished) controller.abort();
+  });
+  return controller.signal;
+}
+
+/**
+ * Stream an upstream body to the client with backpressure (the upstream is
+ * read only as fast as the client takes it)
+ *
+ * Resolves with the bytes passed on and whether the whole body was: a
+ * failed upstream or a client going away destroys both ends instead.
+ */
+export async function pipeUpstreamBody(
+  body: ReadableStream<Uint8Array>,
+  res: ServerResponse
+): Promise<{ bytes: number; complete: boolean; error?: unknown }> {
+  const source = Readable.fromWeb(body as NodeReadableStream<Uint8Array>);
+  let bytes = 0;
+  source.on("data", (chunk: Buffer) => {
+    bytes += chunk.length;
+  });
+
+  try {
+    await pipeline(source, res);
+    return { bytes, complete: true };
+  } catch (error) {
+    return { bytes, complete: false, error };
+  }
+}
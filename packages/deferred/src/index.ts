@@ -6,11 +6,13 @@ export const DEFERRED_SCHEME = "deferred" as const;
 // Deferred payment voucher types
 export interface DeferredVoucher {
   id: string; // Unique voucher ID
+  resource: string; // Wrapped stream ID the voucher pays for
   seller: string; // Address (0x...)
   buyer: string; // Address (0x...)
   asset: string; // Token address (0x...)
   nonce: number; // Aggregation counter
   valueAggregate: string; // Total value in atomic units
+  maxValue?: string; // Spending cap in atomic units, signed at nonce 0 (unset/"0" = no cap)
   timestamp: number; // Unix timestamp
   expiry: number; // Unix timestamp
   chainId: number; // Network chain ID
@@ -22,11 +24,21 @@ export interface DeferredPaymentHeader {
   signature: string; // EIP-712 signature (0x...)
 }
 
+// Onchain settlement of a voucher's final valueAggregate
+export interface VoucherSettlement {
+  status: "pending" | "settled" | "failed";
+  txHash?: string; // Redeem transaction hash (0x...)
+  updatedAt: number; // Server timestamp
+  error?: string;
+  attempts?: number; // Redeem attempts, failed ones are retried with backoff
+}
+
 // Stored voucher state for aggregation validation
 export interface VoucherState {
   voucher: DeferredVoucher;
   signature: string;
   lastValidated?: number; // Server timestamp
+  settlement?: VoucherSettlement; // Set once settlement starts (no more aggregation)
 }
 
 // EIP-712 domain for voucher
@@ -40,17 +52,67 @@ export const getVoucherDomain = (chainId: number) => ({
 export const VOUCHER_TYPES = {
   Voucher: [
     { name: "id", type: "string" },
+    { name: "resource", type: "string" },
     { name: "seller", type: "address" },
     { name: "buyer", type: "address" },
     { name: "asset", type: "address" },
     { name: "nonce", type: "uint256" },
     { name: "valueAggregate", type: "uint256" },
+    { name: "maxValue", type: "uint256" },
     { name: "timestamp", type: "uint256" },
     { name: "expiry", type: "uint256" },
     { name: "chainId", type: "uint256" },
   ],
 } as const;
 
+// Escrow contract redeeming a signed voucher's valueAggregate to the seller
+export const DEFERRED_ESCROW_ABI = [
+  {
+    type: "function",
+    name: "redeem",
+    stateMutability: "nonpayable",
+    inputs: [
+      {
+        name: "voucher",
+        type: "tuple",
+        components: VOUCHER_TYPES.Voucher,
+      },
+      { name: "signature", type: "bytes" },
+    ],
+    outputs: [],
+  },
+] as const;
+
+/**
+ * Convert a voucher to its EIP-712 / ABI message representation
+ */
+export function toVoucherMessage(voucher: DeferredVoucher) {
+  return {
+    id: voucher.id,
+    resource: voucher.resource,
+    seller: getAddress(voucher.seller),
+    buyer: getAddress(voucher.buyer),
+    asset: getAddress(voucher.asset),
+    nonce: BigInt(voucher.nonce),
+    valueAggregate: BigInt(voucher.valueAggregate),
+    maxValue: BigInt(voucher.maxValue ?? 0),
+    timestamp: BigInt(voucher.timestamp),
+    expiry: BigInt(voucher.expiry),
+    chainId: BigInt(voucher.chainId),
+  };
+}
+
+/**
+ * Check whether a value stays within the voucher's spending cap
+ */
+export function isWithinMaxValue(
+  voucher: DeferredVoucher,
+  value: bigint
+): boolean {
+  const maxValue = BigInt(voucher.maxValue ?? 0);
+  return maxValue === 0n || value <= maxValue;
+}
+
 /**
  * Decode X-PAYMENT header for deferred scheme
  */
@@ -88,17 +150,7 @@ export async function verifyVoucherSignature(
       domain: getVoucherDomain(voucher.chainId),
       types: VOUCHER_TYPES,
       primaryType: "Voucher",
-      message: {
-        id: voucher.id,
-        seller: getAddress(voucher.seller),
-        buyer: getAddress(voucher.buyer),
-        asset: getAddress(voucher.asset),
-        nonce: BigInt(voucher.nonce),
-        valueAggregate: BigInt(voucher.valueAggregate),
-        timestamp: BigInt(voucher.timestamp),
-        expiry: BigInt(voucher.expiry),
-        chainId: BigInt(voucher.chainId),
-      },
+      message: toVoucherMessage(voucher),
       signature: signature as `0x${string}`,
     });
     return valid;
@@ -125,17 +177,7 @@ export async function signVoucher(
     domain: getVoucherDomain(voucher.chainId),
     types: VOUCHER_TYPES,
     primaryType: "Voucher",
-    message: {
-      id: voucher.id,
-      seller: getAddress(voucher.seller),
-      buyer: getAddress(voucher.buyer),
-      asset: getAddress(voucher.asset),
-      nonce: BigInt(voucher.nonce),
-      valueAggregate: BigInt(voucher.valueAggregate),
-      timestamp: BigInt(voucher.timestamp),
-      expiry: BigInt(voucher.expiry),
-      chainId: BigInt(voucher.chainId),
-    },
+    message: toVoucherMessage(voucher),
   });
 
   return signature;
@@ -161,22 +203,26 @@ export function encodePayment(
  */
 export function createVoucher(params: {
   id: string;
+  resource: string;
   seller: string;
   buyer: string;
   asset: string;
   nonce: number;
   valueAggregate: string;
+  maxValue?: string;
   timestamp: number;
   expiry: number;
   chainId: number;
 }): DeferredVoucher {
   return {
     id: params.id,
+    resource: params.resource,
     seller: getAddress(params.seller),
     buyer: getAddress(params.buyer),
     asset: getAddress(params.asset),
     nonce: params.nonce,
     valueAggregate: params.valueAggregate,
+    ...(params.maxValue && { maxValue: params.maxValue }),
     timestamp: params.timestamp,
     expiry: params.expiry,
     chainId: params.chainId,
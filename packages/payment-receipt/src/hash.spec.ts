@@ -0,0 +1,45 @@
+import { describe, it, expect } from "vitest";
+import { canonicalize, hashPaymentRequirements } from "./hash";
+
+const requirements = {
+  scheme: "exact",
+  network: "base-sepolia",
+  maxAmountRequired: "10000",
+  resource: "http://localhost:3000/stream/abc.m3u8",
+  description: "",
+  mimeType: "application/vnd.apple.mpegurl",
+  payTo: "0x00000000000000000000000000000000000000bb",
+  maxTimeoutSeconds: 60,
+  asset: "0x036CbD53842c5426634e7929541eC2318f3dCF7e",
+  extra: { name: "USDC", version: "2" },
+};
+
+describe("canonicalize", () => {
+  it("should sort keys and drop undefined members", () => {
+    expect(canonicalize({ b: [1, { d: true, c: null }], a: undefined })).toBe(
+      '{"b":[1,{"c":null,"d":true}]}'
+    );
+  });
+});
+
+describe("hashPaymentRequirements", () => {
+  it("should not depend on key order", () => {
+    const reordered = Object.fromEntries(
+      Object.entries(requirements).reverse()
+    );
+
+    expect(hashPaymentRequirements(reordered)).toBe(
+      hashPaymentRequirements(requirements)
+    );
+    expect(hashPaymentRequirements(requirements)).toMatch(/^0x[0-9a-f]{64}$/);
+  });
+
+  it.each([
+    ["maxAmountRequired", "20000"],
+    ["payTo", "0x00000000000000000000000000000000000000cc"],
+  ])("should change when %s changes", (field, value) => {
+    expect(
+      hashPaymentRequirements({ ...requirements, [field]: value })
+    ).not.toBe(hashPaymentRequirements(requirements));
+  });
+});
@@ -0,0 +1,33 @@
+import { createHash } from "crypto";
+
+/**
+ * Canonical JSON serialization: object keys sorted, undefined members
+ * dropped, no whitespace (stable across key order and JSON libraries)
+ */
+export function canonicalize(value: unknown): string {
+  if (value === null || typeof value !== "object") {
+    return JSON.stringify(value);
+  }
+  if (Array.isArray(value)) {
+    return `[${value
+      .map((item) => (item === undefined ? "null" : canonicalize(item)))
+      .join(",")}]`;
+  }
+
+  const object = value as Record<string, unknown>;
+  const members = Object.keys(object)
+    .filter((key) => object[key] !== undefined)
+    .sort()
+    .map((key) => `${JSON.stringify(key)}:${canonicalize(object[key])}`);
+  return `{${members.join(",")}}`;
+}
+
+/**
+ * SHA256 hash (0x-prefixed hex) of the canonical PaymentRequirements JSON,
+ * as stored in PaymentReceipt.req
+ */
+export function hashPaymentRequirements(requirements: object): string {
+  return `0x${createHash("sha256")
+    .update(canonicalize(requirements))
+    .digest("hex")}`;
+}
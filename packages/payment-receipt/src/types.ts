@@ -7,10 +7,12 @@ export interface PaymentReceipt {
   iss: string;
   /** Subject (payer wallet address, 0x-prefixed) */
   sub: string;
-  /** SHA256 hash of the PaymentRequirements bytes */
+  /** SHA256 hash of the canonical PaymentRequirements JSON (hashPaymentRequirements) */
   req: string;
   /** Issued at (Unix timestamp in seconds) */
   iat: number;
+  /** Unique receipt ID (used for revocation) */
+  jti: string;
   /** Scope - array of path patterns this JWT is valid for */
   scope: string[];
 }
@@ -22,6 +24,14 @@ export interface PaymentReceipt {
 export interface ProofCarryingReceipt extends PaymentReceipt {
   /** On-chain payment transaction hash (0x-prefixed) */
   txHash: string;
+  /** Network the transaction settled on (e.g. "base-sepolia") */
+  network: string;
+  /** ERC-20 token contract address (0x-prefixed) */
+  asset: string;
+  /** Recipient wallet address (0x-prefixed) */
+  payTo: string;
+  /** Amount paid in the token's atomic units */
+  amount: string;
 }
 
 /**
@@ -0,0 +1,136 @@
+import { describe, it, expect } from "vitest";
+import {
+  encodeAbiParameters,
+  encodeEventTopics,
+  erc20Abi,
+  type Hex,
+  type Log,
+} from "viem";
+import type { ProofCarryingReceipt } from "./types";
+import { verifyReceiptSettlement, type ReceiptChainClient } from "./verify";
+
+const ASSET = "0x036CbD53842c5426634e7929541eC2318f3dCF7e";
+const PAYER = "0x00000000000000000000000000000000000000aa";
+const PAY_TO = "0x00000000000000000000000000000000000000bb";
+const TX_HASH = `0x${"12".repeat(32)}` as Hex;
+
+const receipt: ProofCarryingReceipt = {
+  iss: "http://localhost:3000",
+  sub: PAYER,
+  req: "/stream/abc.m3u8",
+  iat: 1700000000,
+  jti: "receipt-1",
+  scope: ["http://localhost:3000/stream/abc*"],
+  txHash: TX_HASH,
+  network: "base-sepolia",
+  asset: ASSET,
+  payTo: PAY_TO,
+  amount: "10000",
+};
+
+const expected = { network: "base-sepolia", asset: ASSET, payTo: PAY_TO };
+
+function transferLog(from: Hex, to: Hex, value: bigint, address = ASSET): Log {
+  return {
+    address,
+    topics: encodeEventTopics({
+      abi: erc20Abi,
+      eventName: "Transfer",
+      args: { from, to },
+    }) as Log["topics"],
+    data: encodeAbiParameters([{ type: "uint256" }], [value]),
+    blockHash: null,
+    blockNumber: null,
+    logIndex: null,
+    transactionHash: TX_HASH,
+    transactionIndex: null,
+    removed: false,
+  };
+}
+
+function mockClient(
+  status: "success" | "reverted",
+  logs: Log[]
+): ReceiptChainClient {
+  return {
+    getTransactionReceipt: async ({ hash }) => {
+      if (hash !== TX_HASH) throw new Error("Transaction not found");
+      return { status, logs };
+    },
+  };
+}
+
+describe("verifyReceiptSettlement", () => {
+  it("should accept a matching transfer", async () => {
+    const client = mockClient("success", [transferLog(PAYER, PAY_TO, 10000n)]);
+
+    expect(await verifyReceiptSettlement(receipt, client, expected)).toEqual({
+      valid: true,
+    });
+  });
+
+  it("should reject a reverted transaction", async () => {
+    const client = mockClient("reverted", [transferLog(PAYER, PAY_TO, 10000n)]);
+
+    const result = await verifyReceiptSettlement(receipt, client, expected);
+    expect(result).toEqual({ valid: false, reason: "Transaction reverted" });
+  });
+
+  it("should reject an unknown transaction", async () => {
+    const client = mockClient("success", []);
+
+    const result = await verifyReceiptSettlement(
+      { ...receipt, txHash: `0x${"34".repeat(32)}` },
+      client,
+      expected
+    );
+    expect(result.valid).toBe(false);
+    expect(result.reason).toMatch(/^Transaction not found/);
+  });
+
+  it.each([
+    ["amount", transferLog(PAYER, PAY_TO, 9999n)],
+    ["payer", transferLog(PAY_TO, PAY_TO, 10000n)],
+    ["payTo", transferLog(PAYER, PAYER, 10000n)],
+    [
+      "asset",
+      transferLog(
+        PAYER,
+        PAY_TO,
+        10000n,
+        "0x0000000000000000000000000000000000000001"
+      ),
+    ],
+  ])("should reject a transfer with a different %s", async (_field, log) => {
+    const client = mockClient("success", [log]);
+
+    const result = await verifyReceiptSettlement(receipt, client, expected);
+    expect(result.valid).toBe(false);
+  });
+
+  // A receipt claiming a real transfer on another network, in another
+  // asset or to another payTo than the auditor's own requirements
+  it.each([
+    ["network", { network: "base" }],
+    ["asset", { asset: "0x0000000000000000000000000000000000000001" }],
+    ["payTo", { payTo: "0x00000000000000000000000000000000000000cc" }],
+    ["amount", { amount: "20000" }],
+  ])("should reject a receipt for another %s", async (_field, claims) => {
+    const client = mockClient("success", [
+      transferLog(PAYER, PAY_TO, 10000n),
+      transferLog(
+        PAYER,
+        "0x00000000000000000000000000000000000000cc",
+        10000n,
+        "0x0000000000000000000000000000000000000001"
+      ),
+    ]);
+
+    const result = await verifyReceiptSettlement(receipt, client, {
+      ...expected,
+      ...claims,
+    });
+    expect(result.valid).toBe(false);
+    expect(result.reason).toMatch(/mismatch/);
+  });
+});
@@ -0,0 +1,106 @@
+import {
+  erc20Abi,
+  isAddressEqual,
+  parseEventLogs,
+  type Hex,
+  type Log,
+} from "viem";
+import type { ProofCarryingReceipt } from "./types";
+
+/**
+ * Chain client used to audit receipts
+ * A viem PublicClient for the receipt's network satisfies this interface
+ */
+export interface ReceiptChainClient {
+  getTransactionReceipt(args: {
+    hash: Hex;
+  }): Promise<{ status: "success" | "reverted"; logs: Log[] }>;
+}
+
+/**
+ * Result of auditing a proof-carrying receipt against the chain
+ */
+export interface ReceiptVerification {
+  valid: boolean;
+  /** Why the receipt doesn't match its transaction (when invalid) */
+  reason?: string;
+}
+
+/**
+ * Settlement the auditor expects, from its own payment requirements rather
+ * than the receipt's claims
+ */
+export interface ExpectedSettlement {
+  /** Network the client reads from (e.g. "base-sepolia") */
+  network: string;
+  /** ERC-20 token contract address */
+  asset: string;
+  /** Recipient wallet address */
+  payTo: string;
+  /** Amount in atomic units (defaults to the receipt's amount) */
+  amount?: string;
+}
+
+/**
+ * Verify that a receipt's settlement transaction paid the expected amount
+ * of the expected asset from the payer (`sub`) to the expected payTo, on
+ * the expected network
+ *
+ * Only the transaction is checked, not the receipt JWT signature. The
+ * client must read from `expected.network`.
+ */
+export async function verifyReceiptSettlement(
+  receipt: ProofCarryingReceipt,
+  client: ReceiptChainClient,
+  expected: ExpectedSettlement
+): Promise<ReceiptVerification> {
+  // The receipt's own claims must match what the auditor expects
+  if (receipt.network !== expected.network) {
+    return { valid: false, reason: `Network mismatch: ${receipt.network}` };
+  }
+  if (!isAddressEqual(receipt.asset as Hex, expected.asset as Hex)) {
+    return { valid: false, reason: `Asset mismatch: ${receipt.asset}` };
+  }
+  if (!isAddressEqual(receipt.payTo as Hex, expected.payTo as Hex)) {
+    return { valid: false, reason: `PayTo mismatch: ${receipt.payTo}` };
+  }
+  const amount = expected.amount ?? receipt.amount;
+  if (BigInt(receipt.amount) !== BigInt(amount)) {
+    return { valid: false, reason: `Amount mismatch: ${receipt.amount}` };
+  }
+
+  let transaction: Awaited<
+    ReturnType<ReceiptChainClient["getTransactionReceipt"]>
+  >;
+  try {
+    transaction = await client.getTransactionReceipt({
+      hash: receipt.txHash as Hex,
+    });
+  } catch {
+    return { valid: false, reason: `Transaction not found: ${receipt.txHash}` };
+  }
+
+  if (transaction.status !== "success") {
+    return { valid: false, reason: "Transaction reverted" };
+  }
+
+  const transfers = parseEventLogs({
+    abi: erc20Abi,
+    eventName: "Transfer",
+    logs: transaction.logs,
+  });
+  const paid = transfers.some(
+    (log) =>
+      isAddressEqual(log.address, expected.asset as Hex) &&
+      isAddressEqual(log.args.from, receipt.sub as Hex) &&
+      isAddressEqual(log.args.to, expected.payTo as Hex) &&
+      log.args.value === BigInt(amount)
+  );
+
+  return paid
+    ? { valid: true }
+    : {
+        valid: false,
+        reason: "No matching transfer of amount from payer to payTo in asset",
+      };
+}
@@ -68,10 +68,15 @@ function App() {
     );
   }
 
-  if (status === "playing" && jwt && window.x402?.currentUrl) {
+  // Free live streams play without a receipt (empty jwt)
+  if (status === "playing" && jwt !== null && window.x402?.currentUrl) {
     return (
       <Providers>
-        <VideoPlayer streamUrl={window.x402.currentUrl} jwt={jwt} />
+        <VideoPlayer
+          streamUrl={window.x402.currentUrl}
+          jwt={jwt}
+          live={window.x402.live}
+        />
       </Providers>
     );
   }
@@ -60,13 +60,15 @@ export function PaywallApp({ onPaymentSuccess }: PaywallAppProps) {
     transport: http(),
   }).extend(publicActions);
 
-  const paymentRequirements = x402
-    ? selectPaymentRequirements(
-        [x402.paymentRequirements].flat(),
-        network,
-        "exact"
-      )
-    : null;
+  const free = x402?.free ?? false;
+  const paymentRequirements =
+    x402 && !free
+      ? selectPaymentRequirements(
+          [x402.paymentRequirements].flat(),
+          network,
+          "exact"
+        )
+      : null;
 
   useEffect(() => {
     if (isConnected && paymentChain.id === connectedChainId) {
@@ -229,7 +231,7 @@ export function PaywallApp({ onPaymentSuccess }: PaywallAppProps) {
     handleSuccessfulResponse,
   ]);
 
-  if (!x402 || !paymentRequirements) {
+  if (!x402 || (!paymentRequirements && !free)) {
     return (
       <div className="container">
         <div className="header">
@@ -243,11 +245,13 @@ export function PaywallApp({ onPaymentSuccess }: PaywallAppProps) {
   return (
     <div className="container gap-8">
       <div className="header">
-        <h1 className="title">Payment Required</h1>
+        <h1 className="title">{x402.title || "Payment Required"}</h1>
         <p>
-          {paymentRequirements.description &&
+          {paymentRequirements?.description &&
             `${paymentRequirements.description}.`}{" "}
-          To access this content, please pay ${amount} {chainName} USDC.
+          {free
+            ? `This live stream is billed per minute of viewing in ${chainName} USDC.`
+            : `To access this content, please pay $${amount} ${chainName} USDC.`}
         </p>
         {testnet && (
           <p className="instructions">
@@ -302,7 +306,9 @@ export function PaywallApp({ onPaymentSuccess }: PaywallAppProps) {
               </div>
               <div className="payment-row">
                 <span className="payment-label">Amount:</span>
-                <span className="payment-value">${amount} USDC</span>
+                <span className="payment-value">
+                  {free ? "Free (billed per minute)" : `$${amount} USDC`}
+                </span>
               </div>
               <div className="payment-row">
                 <span className="payment-label">Network:</span>
@@ -320,13 +326,23 @@ export function PaywallApp({ onPaymentSuccess }: PaywallAppProps) {
                     className="button button-positive"
                   />
                 )}
-                <button
-                  className="button button-primary"
-                  onClick={handlePayment}
-                  disabled={isPaying}
-                >
-                  {isPaying ? <Spinner /> : "Pay now"}
-                </button>
+                {free ? (
+                  // No manifest payment, vouchers are signed while watching
+                  <button
+                    className="button button-primary"
+                    onClick={() => onPaymentSuccess("")}
+                  >
+                    Start watching
+                  </button>
+                ) : (
+                  <button
+                    className="button button-primary"
+                    onClick={handlePayment}
+                    disabled={isPaying}
+                  >
+                    {isPaying ? <Spinner /> : "Pay now"}
+                  </button>
+                )}
               </div>
             ) : (
               <button
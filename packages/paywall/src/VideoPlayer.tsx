@@ -1,46 +1,66 @@
 "use client";
 
-import React, { useEffect, useRef } from "react";
+import React, { useEffect, useRef, useState } from "react";
 import Hls from "hls.js";
-import {
-  type DeferredVoucher,
-  type VoucherState,
-  createVoucher,
-  signVoucher,
-  encodePayment,
-} from "@x402-video-paylink/deferred";
+import dashjs from "dashjs";
+import { signVoucher, encodePayment } from "@x402-video-paylink/deferred";
+import type { VoucherState } from "@x402-video-paylink/deferred";
 import { useWalletClient } from "wagmi";
-import { publicActions } from "viem";
+import { formatUnits, publicActions } from "viem";
+import {
+  isManifestUrl,
+  parsePaymentRequired,
+  createInitialVoucher,
+  createAggregatedVoucher,
+} from "./utils/vouchers";
+import { createProgressiveLoader } from "./utils/progressive";
 
 interface VideoPlayerProps {
   streamUrl: string;
+  // Manifest receipt (empty for free live streams)
   jwt: string;
+  // Live stream: playlist refreshes also carry the voucher
+  live?: boolean;
+}
+
+// Stream kind from the wrapped URL extension (/stream/abc.m3u8, .mpd, .mp4 ...)
+function getStreamKind(url: string): "hls" | "dash" | "progressive" {
+  const ext = url.split("?")[0].split(".").pop()?.toLowerCase();
+  if (ext === "m3u8") return "hls";
+  if (ext === "mpd") return "dash";
+  return "progressive";
+}
+
+// How often dash.js retries a request refused with 402, leaving the buyer
+// time to sign the next voucher (dash.js can't pause loading like hls.js)
+const DASH_PAYMENT_RETRY_ATTEMPTS = 120;
+const DASH_PAYMENT_RETRY_INTERVAL_MS = 1000;
+
+// How often the page renews the voucher behind a native player's playback
+// token (the server asks for aggregation once its reuse window runs out)
+const NATIVE_REFRESH_INTERVAL_MS = 5000;
+
+// Player hooks used while a voucher is signed (dash.js keeps retrying
+// refused requests on its own)
+interface LoadControls {
+  stop: () => void;
+  retry: () => void;
 }
 
-// Check if URL is a manifest (e.g., /stream/abc.m3u8) or segment (e.g., /stream/abc/segment0.ts)
-function isManifestUrl(url: string): boolean {
-  // Handle both absolute and relative URLs
-  let pathname: string;
-  try {
-    const urlObj = new URL(url);
-    pathname = urlObj.pathname;
-  } catch {
-    // If URL parsing fails, assume it's a relative URL
-    pathname = url.split("?")[0]; // Remove query params
-  }
-
-  const pathParts = pathname.split("/").filter(Boolean);
-
-  // Manifest pattern: /stream/{id}.{ext} (2 parts after removing empty)
-  // Segment pattern: /stream/{id}/{...} (3+ parts)
-  return pathParts.length === 2;
+// Voucher that reached its signed maxValue (server 402 "budget-exceeded")
+interface BudgetExhausted {
+  valueAggregate: string;
+  maxValue: string;
 }
 
-export function VideoPlayer({ streamUrl, jwt }: VideoPlayerProps) {
+export function VideoPlayer({ streamUrl, jwt, live }: VideoPlayerProps) {
   const videoRef = useRef<HTMLVideoElement>(null);
   const hlsRef = useRef<Hls | null>(null);
   const voucherStateRef = useRef<VoucherState | null>(null);
   const signingInProgressRef = useRef<boolean>(false);
+  const topUpRef = useRef<(() => Promise<void>) | null>(null);
+  const [budgetExhausted, setBudgetExhausted] =
+    useState<BudgetExhausted | null>(null);
   const { data: wagmiWalletClient } = useWalletClient();
 
   useEffect(() => {
@@ -52,200 +72,320 @@ export function VideoPlayer({ streamUrl, jwt }: VideoPlayerProps) {
     const jwtKey = streamId ? `x402-jwt-${streamId}` : null;
     const storedJwt = jwtKey ? localStorage.getItem(jwtKey) : null;
 
-    // Use stored JWT if available, otherwise use prop
+    // Use stored JWT if available, otherwise use prop (free live streams
+    // have none)
     const actualJwt = storedJwt || jwt;
-    if (!actualJwt) {
+    if (!actualJwt && !live) {
       return;
     }
 
-    if (Hls.isSupported()) {
-      const hls = new Hls({
-        // Limit buffer to ~10-15 seconds to enforce frequent re-authentication
-        maxBufferLength: 10, // seconds
-        maxBufferSize: 10 * 1024 * 1024, // 10 MB
-        maxMaxBufferLength: 15, // max 15 seconds
+    const kind = getStreamKind(streamUrl);
+
+    // Add the receipt and current voucher to a request of either player
+    const setPaymentHeaders = (xhr: XMLHttpRequest, url: string) => {
+      // All requests carry the manifest receipt JWT (segments bind
+      // vouchers to its buyer)
+      if (actualJwt) {
+        xhr.setRequestHeader("Authorization", `Bearer ${actualJwt}`);
+      }
+
+      // Check if this is a manifest or segment request
+      const isManifest = isManifestUrl(url);
+
+      if (!isManifest || live || kind === "progressive") {
+        // Segment/variant (and live playlist, progressive range) requests also use deferred voucher
+        // IMPORTANT: Only use existing voucher, no async signing here!
+        // Request setup must be synchronous - async operations break XMLHttpRequest state
+        if (voucherStateRef.current) {
+          const paymentHeader = encodePayment(
+            voucherStateRef.current.voucher,
+            voucherStateRef.current.signature
+          );
+          xhr.setRequestHeader("X-PAYMENT", paymentHeader);
+        }
+      }
+    };
+
+    // Sign the voucher asked for by a 402 response (new, aggregation or
+    // top-up after the budget is exhausted)
+    const handlePaymentRequired = async (
+      xhr: unknown,
+      controls?: LoadControls
+    ) => {
+      // If already signing (or waiting for a top-up), ignore this error
+      // (will retry after signing completes)
+      if (signingInProgressRef.current || topUpRef.current) {
+        return;
+      }
+
+      if (!wagmiWalletClient) {
+        console.error(`[VideoPlayer] No wallet client available`);
+        return;
+      }
+
+      // Set signing flag
+      signingInProgressRef.current = true;
+
+      const walletClient = wagmiWalletClient.extend(publicActions);
+
+      try {
+        // Parse 402 response to get payment requirements
+        const paymentRequirements = parsePaymentRequired(xhr);
+
+        if (!paymentRequirements?.accepts?.[0]) {
+          console.error(`[VideoPlayer] Invalid 402 response`);
+          signingInProgressRef.current = false;
+          return;
+        }
 
-        xhrSetup: (xhr, url) => {
-          // Check if this is a manifest or segment request
-          const isManifest = isManifestUrl(url);
-
-          if (isManifest) {
-            // Manifest requests use JWT Bearer
-            xhr.setRequestHeader("Authorization", `Bearer ${actualJwt}`);
-          } else {
-            // Segment/variant requests use deferred voucher
-            // IMPORTANT: Only use existing voucher, no async signing here!
-            // xhrSetup must be synchronous - async operations break XMLHttpRequest state
-            if (voucherStateRef.current) {
-              const paymentHeader = encodePayment(
-                voucherStateRef.current.voucher,
-                voucherStateRef.current.signature
-              );
-              xhr.setRequestHeader("X-PAYMENT", paymentHeader);
-            }
-          }
-        },
-      });
+        const requirement = paymentRequirements.accepts[0];
+        const extra = requirement.extra;
 
-      hls.loadSource(streamUrl);
-      hls.attachMedia(video);
-      hls.on(Hls.Events.MANIFEST_PARSED, () => {
-        video.play().catch((err) => {
-          console.error("[VideoPlayer] Autoplay failed:", err);
-        });
-      });
+        const account = walletClient.account;
+        if (!account) {
+          throw new Error("No account in wallet");
+        }
 
-      hls.on(Hls.Events.ERROR, async (event, data) => {
-        // Handle 402 payment required for segments or variant manifests
-        if (
-          data.type === Hls.ErrorTypes.NETWORK_ERROR &&
-          data.response?.code === 402
-        ) {
-          // If already signing, ignore this error (will retry after signing completes)
-          if (signingInProgressRef.current) {
-            return;
-          }
+        // Sign a fresh nonce-0 voucher, capped at maxValue when set
+        const signInitialVoucher = async (
+          voucherId: string,
+          maxValue?: string
+        ) => {
+          const voucher = createInitialVoucher({
+            requirement,
+            voucherId,
+            buyer: account.address,
+            streamId,
+            maxValue,
+            now: Math.floor(Date.now() / 1000),
+          });
+
+          // Sign voucher
+          const signature = await signVoucher(walletClient, voucher);
+
+          // Store voucher state
+          voucherStateRef.current = {
+            voucher,
+            signature,
+          };
+        };
+
+        // Voucher reached its spending cap: ask before opening a new one
+        if (extra?.type === "budget-exceeded" && extra.voucher?.id) {
+          controls?.stop();
+          video.pause();
+          signingInProgressRef.current = false;
+
+          const maxValue = extra.exhausted?.maxValue;
+          topUpRef.current = async () => {
+            signingInProgressRef.current = true;
+            try {
+              await signInitialVoucher(extra.voucher.id, maxValue);
+              topUpRef.current = null;
+              setBudgetExhausted(null);
+              controls?.retry();
+              video
+                .play()
+                .catch((err) =>
+                  console.error(`[VideoPlayer] Failed to resume:`, err)
+                );
+            } catch (err) {
+              console.error(`[VideoPlayer] Top-up cancelled:`, err);
+            } finally {
+              signingInProgressRef.current = false;
+            }
+          };
+          setBudgetExhausted({
+            valueAggregate: extra.exhausted?.valueAggregate ?? "0",
+            maxValue: maxValue ?? "0",
+          });
+          return;
+        }
 
-          if (!wagmiWalletClient) {
-            console.error(`[VideoPlayer] No wallet client available`);
-            return;
-          }
+        // Handle aggregation request (server asking for nonce increment)
+        if (extra?.type === "aggregation" && extra.voucher) {
+          // Remember playback state before pausing
+          const wasPlaying = !video.paused;
 
-          // Set signing flag
-          signingInProgressRef.current = true;
+          // Stop loading while signing
+          controls?.stop();
 
-          const walletClient = wagmiWalletClient.extend(publicActions);
+          // Create new voucher with incremented nonce and updated timestamp
+          const newVoucher = createAggregatedVoucher(
+            requirement,
+            Math.floor(Date.now() / 1000)
+          );
 
-          try {
-            // Parse 402 response to get payment requirements
-            let paymentRequirements: any = null;
+          const signature = await signVoucher(walletClient, newVoucher);
 
-            const xhr = data.networkDetails as any;
-            if (xhr?.response) {
-              if (typeof xhr.response === 'string') {
-                paymentRequirements = JSON.parse(xhr.response);
-              } else if (xhr.response instanceof ArrayBuffer) {
-                const text = new TextDecoder().decode(xhr.response);
-                paymentRequirements = JSON.parse(text);
-              } else {
-                paymentRequirements = xhr.response;
-              }
-            } else if (xhr?.responseText) {
-              paymentRequirements = JSON.parse(xhr.responseText);
-            }
+          voucherStateRef.current = {
+            voucher: newVoucher,
+            signature,
+          };
 
-            if (!paymentRequirements?.accepts?.[0]) {
-              console.error(`[VideoPlayer] Invalid 402 response`);
-              return;
-            }
+          signingInProgressRef.current = false;
 
-            const requirement = paymentRequirements.accepts[0];
-            const extra = requirement.extra;
+          // Retry with new voucher
+          controls?.retry();
 
-            // Handle aggregation request (server asking for nonce increment)
-            if (extra?.type === "aggregation" && extra.voucher) {
-              // Remember playback state before pausing
-              const wasPlaying = !video.paused;
-              const currentTime = video.currentTime;
+          // Resume playback immediately if it was playing
+          if (wasPlaying) {
+            // Small delay to ensure buffer starts loading
+            setTimeout(() => {
+              video.play().catch(err => console.error(`[VideoPlayer] Failed to resume:`, err));
+            }, 100);
+          }
 
-              // Stop loading while signing
-              hls.stopLoad();
+          return;
+        }
 
-              const now = Math.floor(Date.now() / 1000);
-              const account = walletClient.account;
-              if (!account) {
-                console.error(`[VideoPlayer] No account in wallet`);
-                signingInProgressRef.current = false;
-                return;
-              }
+        if (extra?.type !== "new" || !extra.voucher?.id) {
+          console.error(`[VideoPlayer] Invalid payment requirement`);
+          signingInProgressRef.current = false;
+          return;
+        }
 
-              // Create new voucher with incremented nonce and updated timestamp
-              const newVoucher: DeferredVoucher = createVoucher({
-                id: extra.voucher.id,
-                seller: extra.voucher.seller,
-                buyer: extra.voucher.buyer,
-                asset: extra.voucher.asset,
-                nonce: extra.voucher.nonce + 1,
-                valueAggregate: (BigInt(extra.voucher.valueAggregate) + BigInt(10000)).toString(),
-                timestamp: now,
-                expiry: extra.voucher.expiry,
-                chainId: extra.voucher.chainId,
-              });
-
-              const signature = await signVoucher(walletClient, newVoucher);
-
-              voucherStateRef.current = {
-                voucher: newVoucher,
-                signature,
-              };
+        // Create initial voucher, capped by the server's suggested maxValue
+        await signInitialVoucher(extra.voucher.id, extra.maxValue);
+
+        // Clear signing flag BEFORE retrying
+        signingInProgressRef.current = false;
+
+        // Retry all pending requests with the new voucher
+        controls?.retry();
+      } catch (err) {
+        console.error(`[VideoPlayer] Failed to create voucher:`, err);
+        signingInProgressRef.current = false;
+
+        // If user cancelled signing, retry after a short delay
+        // This will trigger another 402 and prompt for signature again
+        setTimeout(() => {
+          controls?.retry();
+        }, 1000);
+      }
+    };
+
+    if (kind === "progressive") {
+      // Progressive file fetched range by range, each one paid for
+      const loader = createProgressiveLoader({
+        url: streamUrl,
+        video,
+        setupRequest: setPaymentHeaders,
+        onPaymentRequired: (xhr, retry) => {
+          handlePaymentRequired(xhr, { stop: () => {}, retry });
+        },
+      });
+      video.addEventListener(
+        "loadedmetadata",
+        () => {
+          video.play().catch((err) => {
+            console.error("[VideoPlayer] Autoplay failed:", err);
+          });
+        },
+        { once: true }
+      );
 
-              signingInProgressRef.current = false;
+      return () => {
+        loader.destroy();
+      };
+    }
 
-              // Retry with new voucher
-              hls.startLoad();
+    if (kind === "dash") {
+      const player = dashjs.MediaPlayer().create();
+      player.updateSettings({
+        streaming: {
+          // Limit buffer to ~10-15 seconds to enforce frequent re-authentication
+          buffer: {
+            stableBufferTime: 10, // seconds
+            bufferTimeAtTopQuality: 10, // seconds
+            bufferTimeAtTopQualityLongForm: 15, // max 15 seconds
+          },
+          retryAttempts: {
+            MPD: DASH_PAYMENT_RETRY_ATTEMPTS,
+            MediaSegment: DASH_PAYMENT_RETRY_ATTEMPTS,
+            InitializationSegment: DASH_PAYMENT_RETRY_ATTEMPTS,
+            IndexSegment: DASH_PAYMENT_RETRY_ATTEMPTS,
+          },
+          retryIntervals: {
+            MPD: DASH_PAYMENT_RETRY_INTERVAL_MS,
+            MediaSegment: DASH_PAYMENT_RETRY_INTERVAL_MS,
+            InitializationSegment: DASH_PAYMENT_RETRY_INTERVAL_MS,
+            IndexSegment: DASH_PAYMENT_RETRY_INTERVAL_MS,
+          },
+        },
+      });
 
-              // Resume playback immediately if it was playing
-              if (wasPlaying) {
-                // Small delay to ensure buffer starts loading
-                setTimeout(() => {
-                  video.play().catch(err => console.error(`[VideoPlayer] Failed to resume:`, err));
-                }, 100);
+      // Request modifier: called with the XMLHttpRequest of every MPD and
+      // segment request before it is sent
+      player.extend(
+        "RequestModifier",
+        () => ({
+          modifyRequestURL: (url: string) => url,
+          modifyRequestHeader: (
+            xhr: XMLHttpRequest,
+            { url }: { url: string }
+          ) => {
+            setPaymentHeaders(xhr, url);
+
+            // Handle 402 payment required for the MPD or segments; the
+            // request is retried by dash.js with the new voucher
+            xhr.addEventListener("load", () => {
+              if (xhr.status === 402) {
+                handlePaymentRequired(xhr);
               }
+            });
 
-              return;
-            }
-
-            if (extra?.type !== "new" || !extra.voucher?.id) {
-              console.error(`[VideoPlayer] Invalid payment requirement`);
-              signingInProgressRef.current = false;
-              return;
-            }
-
-            // Create initial voucher
-            const now = Math.floor(Date.now() / 1000);
-            const account = walletClient.account;
-            if (!account) {
-              console.error(`[VideoPlayer] No account in wallet`);
-              signingInProgressRef.current = false;
-              return;
-            }
+            return xhr;
+          },
+        }),
+        true
+      );
 
-            const voucher: DeferredVoucher = createVoucher({
-              id: extra.voucher.id,
-              seller: requirement.payTo,
-              buyer: account.address,
-              asset: requirement.asset,
-              nonce: 0,
-              valueAggregate: requirement.maxAmountRequired,
-              timestamp: now,
-              expiry: now + 3600, // 1 hour
-              chainId: requirement.network === "base-sepolia" ? 84532 : 8453,
-            });
+      player.on(dashjs.MediaPlayer.events.ERROR, (event) => {
+        console.error("[VideoPlayer] DASH error:", event);
+      });
+      player.initialize(video, streamUrl, true);
 
-            // Sign voucher
-            const signature = await signVoucher(walletClient, voucher);
+      return () => {
+        player.reset();
+      };
+    }
 
-            // Store voucher state
-            voucherStateRef.current = {
-              voucher,
-              signature,
-            };
+    if (Hls.isSupported()) {
+      const hls = new Hls({
+        // Limit buffer to ~10-15 seconds to enforce frequent re-authentication
+        maxBufferLength: 10, // seconds
+        maxBufferSize: 10 * 1024 * 1024, // 10 MB
+        maxMaxBufferLength: 15, // max 15 seconds
+        // LL-HLS: partial segments and blocking playlist reloads (plain
+        // HLS playlists play as before)
+        lowLatencyMode: true,
 
-            // Clear signing flag BEFORE retrying
-            signingInProgressRef.current = false;
+        xhrSetup: setPaymentHeaders,
+      });
 
-            // Retry all pending requests with the new voucher
-            hls.startLoad();
-          } catch (err) {
-            console.error(`[VideoPlayer] Failed to create voucher:`, err);
-            signingInProgressRef.current = false;
+      hls.loadSource(streamUrl);
+      hls.attachMedia(video);
+      hls.on(Hls.Events.MANIFEST_PARSED, () => {
+        video.play().catch((err) => {
+          console.error("[VideoPlayer] Autoplay failed:", err);
+        });
+      });
 
-            // If user cancelled signing, retry after a short delay
-            // This will trigger another 402 and prompt for signature again
-            setTimeout(() => {
-              hls.startLoad();
-            }, 1000);
-          }
+      hls.on(Hls.Events.ERROR, async (event, data) => {
+        // Handle 402 payment required for segments or variant manifests
+        if (
+          data.type === Hls.ErrorTypes.NETWORK_ERROR &&
+          data.response?.code === 402
+        ) {
+          await handlePaymentRequired(data.networkDetails, {
+            stop: () => hls.stopLoad(),
+            // A live manifest refused on first load has to be loaded again
+            retry: () =>
+              data.details === Hls.ErrorDetails.MANIFEST_LOAD_ERROR
+                ? hls.loadSource(streamUrl)
+                : hls.startLoad(),
+          });
         } else if (data.fatal) {
           switch (data.type) {
             case Hls.ErrorTypes.NETWORK_ERROR:
@@ -268,21 +408,88 @@ export function VideoPlayer({ streamUrl, jwt }: VideoPlayerProps) {
         hls.destroy();
       };
     } else if (video.canPlayType("application/vnd.apple.mpegurl")) {
-      // Native HLS support (Safari)
-      video.src = streamUrl;
-      video.addEventListener("loadedmetadata", () => {
-        video.play().catch((err) => {
-          console.error("[VideoPlayer] Autoplay failed:", err);
-        });
-      });
+      // Native HLS support (Safari): requests can't carry headers, so the
+      // page exchanges its voucher for a playback token embedded in the
+      // stream URL and keeps that voucher aggregated while playing
+      const vouchersUrl = streamUrl
+        .split("?")[0]
+        .replace(/\.m3u8$/, "/vouchers");
+      let tokenVoucherId: string | undefined;
+      let refreshTimer: ReturnType<typeof setTimeout> | undefined;
+      let stopped = false;
+
+      const scheduleRefresh = () => {
+        refreshTimer = setTimeout(
+          refreshPlaybackToken,
+          NATIVE_REFRESH_INTERVAL_MS
+        );
+      };
+
+      const refreshPlaybackToken = () => {
+        if (stopped) return;
+        // Paused: nothing is loading, don't pay for more
+        if (tokenVoucherId && video.paused) {
+          scheduleRefresh();
+          return;
+        }
+
+        const xhr = new XMLHttpRequest();
+        xhr.open("POST", vouchersUrl);
+        setPaymentHeaders(xhr, vouchersUrl);
+        xhr.onload = () => {
+          if (stopped) return;
+          if (xhr.status === 402) {
+            // Sign a new or aggregated voucher, then exchange it again
+            handlePaymentRequired(xhr, {
+              stop: () => {},
+              retry: refreshPlaybackToken,
+            });
+            return;
+          }
+
+          const voucherId = voucherStateRef.current?.voucher.id;
+          if (xhr.status === 200 && voucherId !== tokenVoucherId) {
+            // First token, or a new voucher (top-up): (re)load the stream
+            // at the current position
+            tokenVoucherId = voucherId;
+            const { token } = JSON.parse(xhr.responseText);
+            const separator = streamUrl.includes("?") ? "&" : "?";
+            const position = video.currentTime;
+            video.src = `${streamUrl}${separator}x402_token=${encodeURIComponent(
+              token
+            )}`;
+            video.addEventListener(
+              "loadedmetadata",
+              () => {
+                if (position) video.currentTime = position;
+                video.play().catch((err) => {
+                  console.error("[VideoPlayer] Autoplay failed:", err);
+                });
+              },
+              { once: true }
+            );
+          }
+          scheduleRefresh();
+        };
+        xhr.onerror = scheduleRefresh;
+        xhr.send();
+      };
+
+      refreshPlaybackToken();
+
+      return () => {
+        stopped = true;
+        clearTimeout(refreshTimer);
+      };
     } else {
       console.error("[VideoPlayer] HLS not supported");
     }
-  }, [streamUrl, jwt, wagmiWalletClient]);
+  }, [streamUrl, jwt, live, wagmiWalletClient]);
 
   return (
     <div
       style={{
+        position: "relative",
         width: "100%",
         height: "100vh",
         display: "flex",
@@ -300,6 +507,35 @@ export function VideoPlayer({ streamUrl, jwt }: VideoPlayerProps) {
           height: "auto",
         }}
       />
+      {budgetExhausted && (
+        <div
+          style={{
+            position: "absolute",
+            inset: 0,
+            display: "flex",
+            flexDirection: "column",
+            alignItems: "center",
+            justifyContent: "center",
+            gap: "1rem",
+            background: "rgba(0, 0, 0, 0.75)",
+            color: "#fff",
+          }}
+        >
+          <p>
+            Budget reached:{" "}
+            {formatUnits(BigInt(budgetExhausted.valueAggregate), 6)} of{" "}
+            {formatUnits(BigInt(budgetExhausted.maxValue), 6)} USDC spent.
+          </p>
+          <button
+            type="button"
+            className="button button-primary"
+            style={{ width: "auto" }}
+            onClick={() => topUpRef.current?.()}
+          >
+            Top up and keep watching
+          </button>
+        </div>
+      )}
     </div>
   );
 }
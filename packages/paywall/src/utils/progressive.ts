@@ -0,0 +1,236 @@
+import { createFile, MP4BoxBuffer, type Movie } from "mp4box";
+
+// Seconds buffered ahead of the playhead before the next range is fetched
+// (each range request costs one voucher aggregation)
+const BUFFER_AHEAD_SECONDS = 10;
+
+// Extensions remuxed to fragmented MP4 for MediaSource
+const MP4_EXTENSIONS = ["mp4", "m4v", "m4a", "mov"];
+
+// MediaSource types of files appended as-is
+const SOURCE_BUFFER_TYPES: Record<string, string> = {
+  webm: "video/webm",
+  mp3: "audio/mpeg",
+  aac: "audio/aac",
+  ogg: "audio/ogg",
+};
+
+export interface ProgressiveLoaderOptions {
+  url: string;
+  video: HTMLVideoElement;
+  // Adds the receipt and voucher headers to a range request
+  setupRequest: (xhr: XMLHttpRequest, url: string) => void;
+  // Handles a 402 response, retry is called once a new voucher is signed
+  onPaymentRequired: (xhr: XMLHttpRequest, retry: () => void) => void;
+}
+
+export interface ProgressiveLoader {
+  destroy: () => void;
+}
+
+// Receives the file bytes in order, returns the next file offset it needs
+interface MediaSink {
+  append: (chunk: ArrayBuffer, offset: number) => Promise<number>;
+  end: () => Promise<void>;
+}
+
+// Append to a SourceBuffer one update at a time
+function createAppender(sourceBuffer: SourceBuffer) {
+  let queue = Promise.resolve();
+
+  return (data: ArrayBuffer) => {
+    queue = queue.then(
+      () =>
+        new Promise<void>((resolve, reject) => {
+          sourceBuffer.onupdateend = () => resolve();
+          sourceBuffer.onerror = () => reject(new Error("SourceBuffer error"));
+          sourceBuffer.appendBuffer(data);
+        })
+    );
+    return queue;
+  };
+}
+
+// WebM, MP3, AAC ...: bytes go straight to the SourceBuffer
+function createDirectSink(mediaSource: MediaSource, type: string): MediaSink {
+  const append = createAppender(mediaSource.addSourceBuffer(type));
+
+  return {
+    append: async (chunk, offset) => {
+      await append(chunk);
+      return offset + chunk.byteLength;
+    },
+    end: async () => {},
+  };
+}
+
+// MP4: mp4box parses the file and emits fragments MediaSource can play
+// (the returned offset skips to the moov box when it comes last)
+function createMp4Sink(mediaSource: MediaSource): MediaSink {
+  const file = createFile();
+  let append: ((data: ArrayBuffer) => Promise<void>) | undefined;
+  let pending = Promise.resolve();
+
+  file.onError = (module, message) => {
+    console.error(`[ProgressiveLoader] MP4 ${module} error: ${message}`);
+  };
+  file.onReady = (info: Movie) => {
+    const tracks = [...info.videoTracks, ...info.audioTracks];
+    const codecs = tracks.map((track) => track.codec).join(", ");
+    const type = `${info.videoTracks.length ? "video" : "audio"}/mp4; codecs="${codecs}"`;
+
+    append = createAppender(mediaSource.addSourceBuffer(type));
+    for (const track of tracks) {
+      file.setSegmentOptions(track.id, null, { nbSamples: 100 });
+    }
+    pending = append(file.initializeSegmentation().buffer);
+    file.start();
+  };
+  file.onSegment = (_id, _user, buffer) => {
+    if (append) pending = append(buffer);
+  };
+
+  return {
+    append: async (chunk, offset) => {
+      const next = file.appendBuffer(
+        MP4BoxBuffer.fromArrayBuffer(chunk, offset)
+      );
+      await pending;
+      return next ?? offset + chunk.byteLength;
+    },
+    end: async () => {
+      file.flush();
+      await pending;
+    },
+  };
+}
+
+// Seconds buffered from the playhead on
+function getBufferedAhead(video: HTMLVideoElement): number {
+  const { buffered, currentTime } = video;
+  for (let i = 0; i < buffered.length; i++) {
+    if (buffered.start(i) <= currentTime && currentTime < buffered.end(i)) {
+      return buffered.end(i) - currentTime;
+    }
+  }
+  return 0;
+}
+
+function waitForPlayback(video: HTMLVideoElement): Promise<void> {
+  return new Promise((resolve) => {
+    const done = () => {
+      video.removeEventListener("timeupdate", done);
+      video.removeEventListener("seeking", done);
+      resolve();
+    };
+    video.addEventListener("timeupdate", done);
+    video.addEventListener("seeking", done);
+  });
+}
+
+function fetchRange(
+  url: string,
+  offset: number,
+  setupRequest: ProgressiveLoaderOptions["setupRequest"]
+): Promise<XMLHttpRequest> {
+  return new Promise((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    xhr.open("GET", url);
+    xhr.responseType = "arraybuffer";
+    // Open-ended: the server limits each range to its metered size
+    xhr.setRequestHeader("Range", `bytes=${offset}-`);
+    setupRequest(xhr, url);
+    xhr.onload = () => resolve(xhr);
+    xhr.onerror = () => reject(new Error(`Range request failed at ${offset}`));
+    xhr.send();
+  });
+}
+
+/**
+ * Plays a progressive file (MP4, WebM, MP3 ...) through MediaSource,
+ * fetching it one range at a time as the buffer runs low, so every range
+ * is paid for by the deferred voucher
+ *
+ * Ranges are fetched in order: seeking ahead waits for the loader, seeking
+ * back only works within what the browser kept buffered.
+ */
+export function createProgressiveLoader(
+  options: ProgressiveLoaderOptions
+): ProgressiveLoader {
+  const { url, video, setupRequest, onPaymentRequired } = options;
+  const ext = url.split("?")[0].split(".").pop()?.toLowerCase() ?? "";
+  let destroyed = false;
+
+  const mediaSource = new MediaSource();
+  const objectUrl = URL.createObjectURL(mediaSource);
+  video.src = objectUrl;
+
+  const load = async () => {
+    await new Promise((resolve) =>
+      mediaSource.addEventListener("sourceopen", resolve, { once: true })
+    );
+
+    let sink: MediaSink;
+    if (MP4_EXTENSIONS.includes(ext)) {
+      sink = createMp4Sink(mediaSource);
+    } else if (MediaSource.isTypeSupported(SOURCE_BUFFER_TYPES[ext] ?? "")) {
+      sink = createDirectSink(mediaSource, SOURCE_BUFFER_TYPES[ext]);
+    } else {
+      throw new Error(`Unsupported progressive format: .${ext}`);
+    }
+
+    let offset = 0;
+    let size = Infinity;
+    while (!destroyed && offset < size) {
+      while (!destroyed && getBufferedAhead(video) > BUFFER_AHEAD_SECONDS) {
+        await waitForPlayback(video);
+      }
+      if (destroyed) return;
+
+      const xhr = await fetchRange(url, offset, setupRequest);
+      if (destroyed) return;
+
+      if (xhr.status === 402) {
+        await new Promise<void>((retry) => onPaymentRequired(xhr, retry));
+        continue;
+      }
+      if (xhr.status !== 200 && xhr.status !== 206) {
+        throw new Error(`Range request failed: ${xhr.status}`);
+      }
+
+      const chunk = xhr.response as ArrayBuffer;
+      if (chunk.byteLength === 0) break;
+
+      // Total size from "Content-Range: bytes 0-1023/4096" (200 = whole file)
+      const total = xhr
+        .getResponseHeader("Content-Range")
+        ?.match(/\/(\d+)$/)?.[1];
+      if (xhr.status === 200) {
+        size = chunk.byteLength;
+      } else if (total) {
+        size = Number(total);
+      }
+
+      offset = await sink.append(chunk, offset);
+    }
+
+    if (destroyed) return;
+    await sink.end();
+    if (mediaSource.readyState === "open") {
+      mediaSource.endOfStream();
+    }
+  };
+
+  load().catch((err) => {
+    console.error("[ProgressiveLoader] Playback failed:", err);
+  });
+
+  return {
+    destroy: () => {
+      destroyed = true;
+      video.removeAttribute("src");
+      video.load();
+      URL.revokeObjectURL(objectUrl);
+    },
+  };
+}
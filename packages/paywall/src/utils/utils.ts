@@ -38,7 +38,9 @@ export function ensureValidAmount(
 
   if (window.x402?.amount) {
     try {
-      const amountInBaseUnits = Math.round(window.x402.amount * 1_000_000);
+      const amountInBaseUnits = Math.round(
+        Number(window.x402.amount) * 1_000_000
+      );
       updatedRequirements.maxAmountRequired = amountInBaseUnits.toString();
     } catch (error) {
       console.error("Failed to parse amount:", error);
@@ -0,0 +1,135 @@
+import {
+  type DeferredVoucher,
+  createVoucher,
+} from "@x402-video-paylink/deferred";
+
+/**
+ * Checks if a URL is a manifest (e.g., /stream/abc.m3u8) or a segment
+ * (e.g., /stream/abc/segment0.ts)
+ */
+export function isManifestUrl(url: string): boolean {
+  // Handle both absolute and relative URLs
+  let pathname: string;
+  try {
+    const urlObj = new URL(url);
+    pathname = urlObj.pathname;
+  } catch {
+    // If URL parsing fails, assume it's a relative URL
+    pathname = url.split("?")[0]; // Remove query params
+  }
+
+  const pathParts = pathname.split("/").filter(Boolean);
+
+  // Manifest pattern: /stream/{id}.{ext} (2 parts after removing empty)
+  // Segment pattern: /stream/{id}/{...} (3+ parts)
+  return pathParts.length === 2;
+}
+
+/**
+ * Parses the body of a 402 response from an XMLHttpRequest, whatever its
+ * responseType (text for manifests, arraybuffer for segments)
+ */
+export function parsePaymentRequired(xhr: any): any {
+  if (xhr?.response) {
+    if (typeof xhr.response === "string") {
+      return JSON.parse(xhr.response);
+    }
+    if (xhr.response instanceof ArrayBuffer) {
+      return JSON.parse(new TextDecoder().decode(xhr.response));
+    }
+    return xhr.response;
+  }
+  if (xhr?.responseText) {
+    return JSON.parse(xhr.responseText);
+  }
+  return null;
+}
+
+/**
+ * Value to add when aggregating: a fixed step, or for time metering (live
+ * streams) stepAmount per minute since the previous voucher, counting at
+ * most the reuse window
+ */
+export function getAggregationIncrement(
+  extra: any,
+  defaultStep: string,
+  now: number
+): bigint {
+  const stepAmount = BigInt(extra.stepAmount ?? defaultStep);
+  if (extra.metering !== "time") {
+    return stepAmount;
+  }
+  const elapsed = Math.max(
+    0,
+    Math.min(now - extra.voucher.timestamp, extra.timeWindow)
+  );
+  return (stepAmount * BigInt(elapsed) + BigInt(59)) / BigInt(60);
+}
+
+/**
+ * Creates a fresh nonce-0 voucher for a "new" (or top-up) requirement,
+ * capped at maxValue when set
+ */
+export function createInitialVoucher(params: {
+  requirement: any;
+  voucherId: string;
+  buyer: string;
+  // Stream ID to fall back on when the server doesn't advertise one
+  streamId?: string;
+  maxValue?: string;
+  now: number;
+}): DeferredVoucher {
+  const { requirement, now } = params;
+  const extra = requirement.extra ?? {};
+
+  return createVoucher({
+    id: params.voucherId,
+    // Stream the voucher is bound to (advertised by the server)
+    resource: extra.resource ?? params.streamId,
+    seller: requirement.payTo,
+    buyer: params.buyer,
+    asset: requirement.asset,
+    nonce: 0,
+    valueAggregate: requirement.maxAmountRequired,
+    maxValue: params.maxValue,
+    timestamp: now,
+    // Voucher lifetime advertised by the server (default 1 hour)
+    expiry: now + (extra.expirySeconds ?? 3600),
+    chainId: requirement.network === "base-sepolia" ? 84532 : 8453,
+  });
+}
+
+/**
+ * Creates the next voucher for an "aggregation" requirement: nonce + 1 and
+ * valueAggregate raised by the advertised step (or elapsed time)
+ */
+export function createAggregatedVoucher(
+  requirement: any,
+  now: number
+): DeferredVoucher {
+  const { voucher } = requirement.extra;
+
+  return createVoucher({
+    id: voucher.id,
+    resource: voucher.resource,
+    seller: voucher.seller,
+    buyer: voucher.buyer,
+    asset: voucher.asset,
+    nonce: voucher.nonce + 1,
+    // Step amount advertised by the server (PaymentRequirements.extra)
+    valueAggregate: (
+      BigInt(voucher.valueAggregate) +
+      getAggregationIncrement(
+        requirement.extra,
+        requirement.maxAmountRequired,
+        now
+      )
+    ).toString(),
+    maxValue: voucher.maxValue,
+    // Timestamps must increase, even for aggregations within a second
+    // (one per range of a progressive file)
+    timestamp: Math.max(now, voucher.timestamp + 1),
+    expiry: voucher.expiry,
+    chainId: voucher.chainId,
+  });
+}
@@ -3,7 +3,9 @@ import { PaymentRequirements } from "x402/types";
 declare global {
   interface Window {
     x402: {
-      amount?: number;
+      amount?: number | string;
+      title?: string;
+      description?: string;
       testnet?: boolean;
       paymentRequirements: PaymentRequirements | PaymentRequirements[];
       currentUrl: string;
@@ -11,6 +13,9 @@ declare global {
       appName?: string;
       appLogo?: string;
       sessionTokenEndpoint?: string;
+      // Live stream metered by viewing time; free = no manifest payment
+      live?: boolean;
+      free?: boolean;
       config: {
         chainConfig: Record<
           string,